@@ -5,14 +5,22 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import Analysis from "@/pages/analysis";
+import Company from "@/pages/company";
+import Compare from "@/pages/compare";
 import About from "@/pages/about";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/analysis/:id" component={Analysis} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/analysis/:id" component={Analysis} />
+      <ProtectedRoute path="/companies/:id" component={Company} />
+      <ProtectedRoute path="/compare/:baseId/:targetId" component={Compare} />
+      <Route path="/auth" component={AuthPage} />
       <Route path="/about" component={About} />
       <Route component={NotFound} />
     </Switch>
@@ -22,10 +30,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,101 @@
+import { CheckCircle, Circle, Loader2, AlertTriangle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PIPELINE_STAGES,
+  useUploadProgress,
+  type UploadProgressState,
+} from "@/hooks/use-upload-progress";
+import type { StageStatus, UploadFile } from "@/types/upload";
+
+interface AnalysisProgressProps {
+  uploadId: number;
+  compact?: boolean;
+  onFinished?: (status: UploadFile["status"]) => void;
+  progress?: UploadProgressState; // from a shared stream; the component opens its own otherwise
+}
+
+const getStageIcon = (status: StageStatus) => {
+  switch (status) {
+    case "completed":
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case "running":
+      return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />;
+    case "degraded":
+      return <AlertTriangle className="w-4 h-4 text-amber-600" />;
+    case "failed":
+      return <XCircle className="w-4 h-4 text-red-600" />;
+    default:
+      return <Circle className="w-4 h-4 text-slate-300" />;
+  }
+};
+
+const formatDuration = (ms?: number) =>
+  ms === undefined ? "" : `${(ms / 1000).toFixed(1)}s`;
+
+export default function AnalysisProgress({
+  uploadId,
+  compact = false,
+  onFinished,
+  progress,
+}: AnalysisProgressProps) {
+  const ownProgress = useUploadProgress(uploadId, progress === undefined, onFinished);
+  const { stages, attempt, error } = progress ?? ownProgress;
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-3 mt-2">
+        {PIPELINE_STAGES.map(({ stage, label }) => {
+          const progress = stages.find((s) => s.stage === stage)!;
+          return (
+            <span
+              key={stage}
+              className="inline-flex items-center gap-1 text-xs text-slate-500"
+              title={progress.message}
+            >
+              {getStageIcon(progress.status)}
+              {label}
+            </span>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-w-md mx-auto text-left">
+      {attempt !== undefined && attempt > 1 && (
+        <p className="text-xs text-amber-700">Retrying analysis (attempt {attempt})</p>
+      )}
+      {PIPELINE_STAGES.map(({ stage, label }, index) => {
+        const progress = stages.find((s) => s.stage === stage)!;
+        return (
+          <div
+            key={stage}
+            className={cn(
+              "flex items-start justify-between p-3 rounded-md border",
+              progress.status === "running" && "border-blue-200 bg-blue-50",
+              progress.status === "degraded" && "border-amber-200 bg-amber-50",
+              progress.status === "failed" && "border-red-200 bg-red-50",
+            )}
+          >
+            <div className="flex items-start gap-3">
+              {getStageIcon(progress.status)}
+              <div>
+                <p className="text-sm font-medium text-slate-800">
+                  Stage {index}: {label}
+                </p>
+                {progress.message && (
+                  <p className="text-xs text-slate-600 mt-1">{progress.message}</p>
+                )}
+              </div>
+            </div>
+            <span className="text-xs text-slate-500">
+              {formatDuration(progress.duration)}
+            </span>
+          </div>
+        );
+      })}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getAnalysisRuns, pinAnalysisRun, rollbackAnalysis } from "@/services/upload";
+import { useToast } from "@/hooks/use-toast";
+
+// e.g. "business_overview v1, financial v1, hr v2"
+const formatPromptVersions = (promptVersions: string) => {
+  try {
+    return Object.entries(JSON.parse(promptVersions) as Record<string, string>)
+      .map(([stage, version]) => `${stage} ${version}`)
+      .join(", ");
+  } catch {
+    return promptVersions;
+  }
+};
+
+interface AnalysisVersionPickerProps {
+  uploadId: number;
+}
+
+export default function AnalysisVersionPicker({ uploadId }: AnalysisVersionPickerProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ["/api/uploads", String(uploadId), "analyses"],
+    queryFn: () => getAnalysisRuns(uploadId),
+  });
+
+  const onVersionChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/uploads", String(uploadId)] });
+  };
+
+  const pinMutation = useMutation({
+    mutationFn: (analysisId: number) => pinAnalysisRun(uploadId, analysisId),
+    onSuccess: () => {
+      onVersionChanged();
+      toast({
+        title: "Version Pinned",
+        description: "The selected analysis is now the current version.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Pin Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: () => rollbackAnalysis(uploadId),
+    onSuccess: () => {
+      onVersionChanged();
+      toast({
+        title: "Rolled Back",
+        description: "Restored the previous analysis version.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (runs.length < 2) return null;
+
+  const currentIndex = runs.findIndex((run) => run.isCurrent);
+  const current = runs[currentIndex];
+  const canRollBack = currentIndex !== -1 && currentIndex < runs.length - 1;
+  const isPending = pinMutation.isPending || rollbackMutation.isPending;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={current ? String(current.id) : undefined}
+        onValueChange={(value) => pinMutation.mutate(parseInt(value))}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-64">
+          <History className="w-4 h-4 mr-2" />
+          <SelectValue placeholder="Select version" />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map((run, index) => (
+            <SelectItem key={run.id} value={String(run.id)}>
+              Version {runs.length - index} • {new Date(run.createdAt).toLocaleString()}
+              <span className="ml-2 text-xs text-slate-500">
+                {run.pipelineMode} • prompts {formatPromptVersions(run.promptVersions)}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => rollbackMutation.mutate()}
+        disabled={!canRollBack || isPending}
+        title="Roll back to the previous version"
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Building2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCompanies, setUploadCompany } from "@/services/upload";
+import { useToast } from "@/hooks/use-toast";
+import type { UploadFile } from "@/types/upload";
+
+const NO_COMPANY = "none";
+const NEW_COMPANY = "new";
+
+interface CompanyLinkPickerProps {
+  upload: UploadFile;
+}
+
+export default function CompanyLinkPicker({ upload }: CompanyLinkPickerProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState(
+    upload.companyId ? String(upload.companyId) : NO_COMPANY,
+  );
+  const [newCompanyName, setNewCompanyName] = useState("");
+  const [fiscalYear, setFiscalYear] = useState(upload.fiscalYear ? String(upload.fiscalYear) : "");
+
+  const { data: companies = [] } = useQuery({
+    queryKey: ["/api/companies"],
+    queryFn: getCompanies,
+  });
+
+  const company = companies.find((candidate) => candidate.id === upload.companyId);
+
+  const linkMutation = useMutation({
+    mutationFn: () =>
+      setUploadCompany(upload.id, {
+        companyId: selection === NO_COMPANY || selection === NEW_COMPANY ? null : parseInt(selection),
+        newCompanyName: selection === NEW_COMPANY ? newCompanyName : undefined,
+        fiscalYear: fiscalYear ? parseInt(fiscalYear) : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads", String(upload.id)] });
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      setOpen(false);
+      toast({
+        title: "Company Updated",
+        description: "This report keeps its company link when it is re-analyzed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Linking Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave =
+    (selection !== NEW_COMPANY || newCompanyName.trim() !== "") &&
+    (fiscalYear === "" || /^\d{4}$/.test(fiscalYear));
+
+  return (
+    <div className="flex items-center space-x-2">
+      {company && (
+        <Link href={`/companies/${company.id}`}>
+          <Button variant="link" className="px-0">
+            {company.name}
+            {upload.fiscalYear ? ` • FY${upload.fiscalYear}` : ""}
+          </Button>
+        </Link>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" title="Change the company this report belongs to">
+            <Building2 className="w-4 h-4 mr-1" />
+            {company ? "Re-link" : "Link company"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-4">
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={selection} onValueChange={setSelection}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COMPANY}>No company</SelectItem>
+                {companies.map((candidate) => (
+                  <SelectItem key={candidate.id} value={String(candidate.id)}>
+                    {candidate.name}
+                    {candidate.ticker ? ` (${candidate.ticker})` : ""}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_COMPANY}>New company...</SelectItem>
+              </SelectContent>
+            </Select>
+            {selection === NEW_COMPANY && (
+              <Input
+                placeholder="Company name"
+                value={newCompanyName}
+                onChange={(event) => setNewCompanyName(event.target.value)}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fiscal-year">Fiscal year</Label>
+            <Input
+              id="fiscal-year"
+              inputMode="numeric"
+              placeholder="e.g. 2024"
+              value={fiscalYear}
+              onChange={(event) => setFiscalYear(event.target.value.trim())}
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => linkMutation.mutate()}
+            disabled={!canSave || linkMutation.isPending}
+          >
+            {linkMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
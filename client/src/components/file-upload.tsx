@@ -1,31 +1,54 @@
 import { useState, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Cloud, Plus, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { uploadFile } from "@/services/upload";
-import { validateFile, formatFileSize } from "@/utils/file";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DuplicateUploadError, uploadFile } from "@/services/upload";
+import { validateFile, formatFileSize, formatUploadTime } from "@/utils/file";
 import { useToast } from "@/hooks/use-toast";
-import type { UploadProgress } from "@/types/upload";
+import type { DuplicateUpload, DuplicateUploadAction, UploadProgress } from "@/types/upload";
+
+interface PendingDuplicate {
+  file: File;
+  duplicate: DuplicateUpload;
+}
 
 export default function FileUpload() {
   const [isDragging, setIsDragging] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [pendingDuplicate, setPendingDuplicate] = useState<PendingDuplicate | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const uploadMutation = useMutation({
-    mutationFn: uploadFile,
-    onSuccess: () => {
+    mutationFn: ({ file, onDuplicate }: { file: File; onDuplicate?: DuplicateUploadAction }) =>
+      uploadFile(file, onDuplicate),
+    onSuccess: (upload) => {
       queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
       setUploadProgress(null);
       toast({
         title: "Upload Successful",
-        description: "Your file has been uploaded and is being processed.",
+        description:
+          upload.status === "completed"
+            ? "The existing analysis has been reused for your file."
+            : "Your file has been uploaded and is being processed.",
       });
     },
-    onError: (error) => {
+    onError: (error, { file }) => {
       setUploadProgress(null);
+      if (error instanceof DuplicateUploadError) {
+        setPendingDuplicate({ file, duplicate: error.duplicate });
+        return;
+      }
       toast({
         title: "Upload Failed",
         description: error.message,
@@ -63,7 +86,13 @@ export default function FileUpload() {
       });
     }, 200);
 
-    uploadMutation.mutate(file);
+    uploadMutation.mutate({ file });
+  };
+
+  const resolveDuplicate = (onDuplicate: DuplicateUploadAction) => {
+    if (!pendingDuplicate) return;
+    uploadMutation.mutate({ file: pendingDuplicate.file, onDuplicate });
+    setPendingDuplicate(null);
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -158,6 +187,34 @@ export default function FileUpload() {
           )}
         </div>
       </div>
+
+      <Dialog open={pendingDuplicate !== null} onOpenChange={(open) => !open && setPendingDuplicate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>This report was already analyzed</DialogTitle>
+            <DialogDescription>
+              {pendingDuplicate && (
+                <>
+                  The same file was uploaded as{" "}
+                  <Link href={`/analysis/${pendingDuplicate.duplicate.id}`}>
+                    <span className="font-medium text-primary hover:underline cursor-pointer">
+                      {pendingDuplicate.duplicate.fileName}
+                    </span>
+                  </Link>{" "}
+                  {formatUploadTime(pendingDuplicate.duplicate.uploadTime)}. You can reuse that analysis
+                  or analyze it again; stages whose prompt and model haven't changed are reused either way.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => resolveDuplicate("analyze")}>
+              Analyze Again
+            </Button>
+            <Button onClick={() => resolveDuplicate("reuse")}>Reuse Analysis</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </section>
   );
 }
@@ -1,9 +1,11 @@
 import { Link, useLocation } from "wouter";
-import { User } from "lucide-react";
+import { User, LogOut } from "lucide-react";
 import { Logo } from "@/components/ui/logo";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Header() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   const navItems = [
     { href: "/", label: "Dashboard", active: location === "/" },
@@ -34,12 +36,26 @@ export default function Header() {
                 {item.label}
               </Link>
             ))}
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-secondary/20 rounded-full flex items-center justify-center">
-                <User className="w-4 h-4 text-secondary" />
+            {user ? (
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-secondary/20 rounded-full flex items-center justify-center">
+                  <User className="w-4 h-4 text-secondary" />
+                </div>
+                <span className="text-sm text-muted-foreground">{user.username}</span>
+                <button
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  className="p-1 rounded-md text-muted-foreground hover:text-primary hover:bg-muted"
+                  title="Log out"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
               </div>
-              <span className="text-sm text-muted-foreground">Sales Rep</span>
-            </div>
+            ) : (
+              <Link href="/auth" className="font-medium text-muted-foreground hover:text-primary">
+                Log In
+              </Link>
+            )}
           </nav>
 
           {/* Mobile menu button */}
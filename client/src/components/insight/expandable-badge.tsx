@@ -4,10 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { ChevronDown, ChevronRight } from "lucide-react";
+import { AlertTriangle, ChevronDown, ChevronRight, FileSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { HRInsight } from "@/types/upload";
+import { HRInsight, InsightSource } from "@/types/upload";
 import { InsightDetailModal } from "./insight-detail-modal";
+import { QuoteStatusBadge } from "./quote-status-badge";
 
 interface ExpandableBadgeProps {
   insight: HRInsight;
@@ -15,6 +17,7 @@ interface ExpandableBadgeProps {
   displayMode?: "badge" | "card";
   showPageReference?: boolean;
   className?: string;
+  source?: InsightSource;
 }
 
 export function ExpandableBadge({ 
@@ -22,10 +25,12 @@ export function ExpandableBadge({
   variant = "secondary", 
   displayMode = "badge",
   showPageReference = false,
-  className 
+  className,
+  source
 }: ExpandableBadgeProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const quoteNotFound = insight.quoteVerification?.status === "not_found";
   
   const handleBadgeClick = () => {
     setIsModalOpen(true);
@@ -54,10 +59,12 @@ export function ExpandableBadge({
                   className={cn(
                     "text-xs cursor-pointer hover:opacity-80 transition-opacity",
                     "border-dashed border-2", // Visual indicator of expandability
+                    quoteNotFound && "border-red-400",
                     className
                   )}
                   onClick={handleBadgeClick}
                 >
+                  {quoteNotFound && <AlertTriangle className="h-3 w-3 mr-1 text-red-600" />}
                   {truncatedText}
                 </Badge>
               </div>
@@ -76,6 +83,7 @@ export function ExpandableBadge({
                     Source: {insight.pageReference}
                   </p>
                 )}
+                <QuoteStatusBadge verification={insight.quoteVerification} />
               </div>
             </TooltipContent>
           </Tooltip>
@@ -85,6 +93,7 @@ export function ExpandableBadge({
           insight={insight}
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
+          source={source}
         />
       </>
     );
@@ -102,6 +111,7 @@ export function ExpandableBadge({
               </p>
             </div>
             <div className="flex items-center gap-2 flex-shrink-0">
+              <QuoteStatusBadge verification={insight.quoteVerification} />
               {showPageReference && insight.pageReference && (
                 <Badge variant="outline" className="text-xs">
                   {insight.pageReference}
@@ -156,11 +166,31 @@ export function ExpandableBadge({
                     <span>Source: {insight.pageReference}</span>
                   )}
                 </div>
+                {source && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setIsModalOpen(true)}
+                  >
+                    <FileSearch className="h-3 w-3 mr-1" />
+                    View in report
+                  </Button>
+                )}
               </div>
             </div>
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
+
+      {source && (
+        <InsightDetailModal
+          insight={insight}
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          source={source}
+        />
+      )}
     </Card>
   );
 }
@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -10,15 +10,25 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { FileText, MessageSquare, Lightbulb, MapPin } from "lucide-react";
-import { HRInsight } from "@/types/upload";
+import { HRInsight, InsightSource } from "@/types/upload";
+import { cn } from "@/lib/utils";
+import { QuoteStatusBadge } from "./quote-status-badge";
+import { SourceViewer } from "./source-viewer";
 
 interface InsightDetailModalProps {
   insight: HRInsight;
   isOpen: boolean;
   onClose: () => void;
+  source?: InsightSource;
 }
 
-export function InsightDetailModal({ insight, isOpen, onClose }: InsightDetailModalProps) {
+export function InsightDetailModal({ insight, isOpen, onClose, source }: InsightDetailModalProps) {
+  const quotes = useMemo(
+    () => [insight.dataPoint, insight.sourceContext],
+    [insight.dataPoint, insight.sourceContext],
+  );
+  const sourcePage = insight.quoteVerification?.matchedPage ?? insight.resolvedPage ?? null;
+
   const getConfidenceColor = (confidence?: number) => {
     if (!confidence) return "bg-gray-500";
     if (confidence >= 8) return "bg-green-500";
@@ -35,7 +45,9 @@ export function InsightDetailModal({ insight, isOpen, onClose }: InsightDetailMo
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+      <DialogContent
+        className={cn("max-h-[80vh] overflow-y-auto", source ? "max-w-6xl" : "max-w-2xl")}
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Lightbulb className="h-5 w-5 text-blue-600" />
@@ -46,72 +58,85 @@ export function InsightDetailModal({ insight, isOpen, onClose }: InsightDetailMo
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Confidence and Source Info */}
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              {insight.confidence && (
-                <Badge variant="outline" className="gap-1">
-                  <div 
-                    className={`w-2 h-2 rounded-full ${getConfidenceColor(insight.confidence)}`}
-                  />
-                  {getConfidenceLabel(insight.confidence)} Confidence ({insight.confidence}/10)
-                </Badge>
+        <div className={cn(source && "grid gap-6 md:grid-cols-2 md:items-start")}>
+          <div className="space-y-6">
+            {/* Confidence and Source Info */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {insight.confidence && (
+                  <Badge variant="outline" className="gap-1">
+                    <div 
+                      className={`w-2 h-2 rounded-full ${getConfidenceColor(insight.confidence)}`}
+                    />
+                    {getConfidenceLabel(insight.confidence)} Confidence ({insight.confidence}/10)
+                  </Badge>
+                )}
+                <QuoteStatusBadge verification={insight.quoteVerification} showVerified />
+              </div>
+              {insight.pageReference && (
+                <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <MapPin className="h-4 w-4" />
+                  {insight.pageReference}
+                  {insight.resolvedPage === null && (
+                    <Badge variant="outline" className="ml-1 text-xs text-amber-700 border-amber-300">
+                      Page not found in document
+                    </Badge>
+                  )}
+                </div>
               )}
             </div>
-            {insight.pageReference && (
-              <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                <MapPin className="h-4 w-4" />
-                {insight.pageReference}
-              </div>
-            )}
-          </div>
 
-          {/* Data Point */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <FileText className="h-4 w-4 text-blue-600" />
-              <h3 className="font-semibold">Data Point</h3>
+            {/* Data Point */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-blue-600" />
+                <h3 className="font-semibold">Data Point</h3>
+              </div>
+              <p className="text-sm leading-relaxed bg-gray-50 p-3 rounded-md">
+                {insight.dataPoint}
+              </p>
             </div>
-            <p className="text-sm leading-relaxed bg-gray-50 p-3 rounded-md">
-              {insight.dataPoint}
-            </p>
-          </div>
 
-          <Separator />
+            <Separator />
 
-          {/* HR Relevance */}
-          <div className="space-y-2">
-            <h3 className="font-semibold text-green-700">Why This Matters to HR</h3>
-            <p className="text-sm leading-relaxed">
-              {insight.hrRelevance}
-            </p>
-          </div>
+            {/* HR Relevance */}
+            <div className="space-y-2">
+              <h3 className="font-semibold text-green-700">Why This Matters to HR</h3>
+              <p className="text-sm leading-relaxed">
+                {insight.hrRelevance}
+              </p>
+            </div>
 
-          <Separator />
+            <Separator />
 
-          {/* Conversation Starter */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <MessageSquare className="h-4 w-4 text-purple-600" />
-              <h3 className="font-semibold text-purple-700">Suggested Discovery Question</h3>
+            {/* Conversation Starter */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <MessageSquare className="h-4 w-4 text-purple-600" />
+                <h3 className="font-semibold text-purple-700">Suggested Discovery Question</h3>
+              </div>
+              <p className="text-sm leading-relaxed bg-purple-50 p-3 rounded-md italic">
+                "{insight.conversationStarter}"
+              </p>
             </div>
-            <p className="text-sm leading-relaxed bg-purple-50 p-3 rounded-md italic">
-              "{insight.conversationStarter}"
-            </p>
+
+            {/* Source Context */}
+            {insight.sourceContext && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h3 className="font-semibold text-gray-700">Source Context</h3>
+                  <p className="text-xs leading-relaxed text-gray-600 bg-gray-50 p-3 rounded-md border-l-4 border-gray-300">
+                    {insight.sourceContext}
+                  </p>
+                </div>
+              </>
+            )}
           </div>
 
-          {/* Source Context */}
-          {insight.sourceContext && (
-            <>
-              <Separator />
-              <div className="space-y-2">
-                <h3 className="font-semibold text-gray-700">Source Context</h3>
-                <p className="text-xs leading-relaxed text-gray-600 bg-gray-50 p-3 rounded-md border-l-4 border-gray-300">
-                  {insight.sourceContext}
-                </p>
-              </div>
-            </>
+          {/* Source document opened at the matched page */}
+          {source && (
+            <SourceViewer source={source} initialPage={sourcePage} quotes={quotes} />
           )}
         </div>
       </DialogContent>
@@ -0,0 +1,72 @@
+import { AlertTriangle, CheckCircle2, CircleDashed } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { QuoteVerification } from "@/types/upload";
+
+interface QuoteStatusBadgeProps {
+  verification?: QuoteVerification;
+  showVerified?: boolean;
+  className?: string;
+}
+
+export function QuoteStatusBadge({
+  verification,
+  showVerified = false,
+  className,
+}: QuoteStatusBadgeProps) {
+  if (!verification) return null;
+
+  const pageSuffix = verification.matchedPage ? ` (p. ${verification.matchedPage})` : "";
+
+  if (verification.status === "not_found") {
+    return (
+      <Badge
+        variant="outline"
+        className={cn("gap-1 text-xs border-red-300 bg-red-50 text-red-700", className)}
+        title="This quote could not be found in the report - check it before using it on a call"
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Quote not found
+      </Badge>
+    );
+  }
+
+  if (verification.status === "approximate") {
+    return (
+      <Badge
+        variant="outline"
+        className={cn("gap-1 text-xs border-amber-300 bg-amber-50 text-amber-700", className)}
+        title={`Closest passage matches ${Math.round(verification.similarity * 100)}% of the quote`}
+      >
+        <CircleDashed className="h-3 w-3" />
+        Approximate quote{pageSuffix}
+      </Badge>
+    );
+  }
+
+  if (!showVerified) return null;
+
+  // Too short to check without an exact match; not evidence either way
+  if (verification.status === "unverifiable") {
+    return (
+      <Badge
+        variant="outline"
+        className={cn("gap-1 text-xs border-slate-300 bg-slate-50 text-slate-600", className)}
+        title="This quote is too short to check against the report"
+      >
+        <CircleDashed className="h-3 w-3" />
+        Quote not checked
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 text-xs border-green-300 bg-green-50 text-green-700", className)}
+    >
+      <CheckCircle2 className="h-3 w-3" />
+      Verified quote{pageSuffix}
+    </Badge>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { ChevronLeft, ChevronRight, ExternalLink, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { findQuoteSpan, normalizeWord } from "@/lib/quote-match";
+import { getPageText, getUploadFileUrl } from "@/services/upload";
+import type { InsightSource } from "@/types/upload";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PageViewProps {
+  pageNumber: number;
+  quotes: (string | undefined)[];
+  onPageCount: (pageCount: number) => void;
+}
+
+function PdfPageView({ url, pageNumber, quotes, onPageCount }: PageViewProps & { url: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+
+  useEffect(() => {
+    const loadingTask = pdfjsLib.getDocument({ url, withCredentials: true });
+    loadingTask.promise
+      .then((document) => {
+        setPdf(document);
+        onPageCount(document.numPages);
+      })
+      .catch(() => setError("Could not load the document"));
+
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let cancelled = false;
+    setIsRendering(true);
+
+    const renderPage = async () => {
+      const page = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = (containerRef.current?.clientWidth || baseViewport.width) / baseViewport.width;
+      const viewport = page.getViewport({ scale });
+
+      const canvas = canvasRef.current!;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+
+      // Map each word back to its text item so the matched run can be boxed
+      const content = await page.getTextContent();
+      const words: string[] = [];
+      const wordItems: number[] = [];
+      content.items.forEach((item, itemIndex) => {
+        if (!("str" in item)) return;
+        item.str.split(/\s+/).forEach((word) => {
+          const normalized = normalizeWord(word);
+          if (!normalized) return;
+          words.push(normalized);
+          wordItems.push(itemIndex);
+        });
+      });
+
+      const span = findQuoteSpan(words, quotes);
+      const rects: HighlightRect[] = [];
+      if (span) {
+        const matchedItems = new Set(wordItems.slice(span.start, span.end + 1));
+        matchedItems.forEach((itemIndex) => {
+          const item = content.items[itemIndex];
+          if (!("str" in item)) return;
+          const transform = pdfjsLib.Util.transform(viewport.transform, item.transform);
+          const height = Math.hypot(transform[2], transform[3]);
+          rects.push({
+            left: transform[4],
+            top: transform[5] - height,
+            width: item.width * viewport.scale,
+            height: height * 1.2,
+          });
+        });
+      }
+
+      if (!cancelled) {
+        setHighlights(rects);
+        setIsRendering(false);
+        if (rects.length > 0) {
+          containerRef.current?.scrollTo({ top: Math.max(rects[0].top - 80, 0) });
+        }
+      }
+    };
+
+    renderPage().catch(() => {
+      if (!cancelled) setError("Could not render this page");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber, quotes]);
+
+  if (error) {
+    return <p className="p-4 text-sm text-muted-foreground">{error}</p>;
+  }
+
+  return (
+    <div ref={containerRef} className="relative max-h-[60vh] overflow-auto bg-slate-100">
+      {isRendering && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      <div className="relative">
+        <canvas ref={canvasRef} className="block w-full" />
+        {highlights.map((rect, index) => (
+          <div
+            key={index}
+            className="absolute rounded-sm bg-yellow-300/50 ring-1 ring-yellow-500/60"
+            style={rect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// DOCX files can't be rendered in the browser, so show the extracted page text
+function TextPageView({ uploadId, pageNumber, quotes, onPageCount }: PageViewProps & { uploadId: number }) {
+  const { data: page, isLoading, error } = useQuery({
+    queryKey: ["/api/uploads", uploadId, "pages", pageNumber],
+    queryFn: () => getPageText(uploadId, pageNumber),
+  });
+
+  useEffect(() => {
+    if (page) onPageCount(page.pageCount);
+  }, [page]);
+
+  const segments = useMemo(() => {
+    if (!page) return [];
+    const tokens = page.text.split(/(\s+)/);
+    const wordTokenIndexes = tokens
+      .map((token, index) => (normalizeWord(token) ? index : -1))
+      .filter((index) => index !== -1);
+    const span = findQuoteSpan(
+      wordTokenIndexes.map((index) => normalizeWord(tokens[index])),
+      quotes,
+    );
+    if (!span) return [{ text: page.text, highlighted: false }];
+
+    const from = wordTokenIndexes[span.start];
+    const to = wordTokenIndexes[span.end];
+    return [
+      { text: tokens.slice(0, from).join(""), highlighted: false },
+      { text: tokens.slice(from, to + 1).join(""), highlighted: true },
+      { text: tokens.slice(to + 1).join(""), highlighted: false },
+    ];
+  }, [page, quotes]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !page) {
+    return <p className="p-4 text-sm text-muted-foreground">Could not load this page</p>;
+  }
+
+  return (
+    <div className="max-h-[60vh] overflow-auto bg-white p-4 text-xs leading-relaxed whitespace-pre-wrap">
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </div>
+  );
+}
+
+interface SourceViewerProps {
+  source: InsightSource;
+  initialPage: number | null;
+  quotes: (string | undefined)[];
+}
+
+export function SourceViewer({ source, initialPage, quotes }: SourceViewerProps) {
+  const [pageNumber, setPageNumber] = useState(initialPage ?? 1);
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const fileUrl = getUploadFileUrl(source.uploadId);
+  const isPdf = source.fileName.toLowerCase().endsWith(".pdf");
+
+  useEffect(() => {
+    setPageNumber(initialPage ?? 1);
+  }, [initialPage]);
+
+  return (
+    <div className="flex flex-col border rounded-md overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-slate-50">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <FileText className="h-4 w-4 text-blue-600" />
+          Page {pageNumber}
+          {pageCount && <span className="text-muted-foreground font-normal">of {pageCount}</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={pageNumber <= 1}
+            onClick={() => setPageNumber(pageNumber - 1)}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={pageCount !== null && pageNumber >= pageCount}
+            onClick={() => setPageNumber(pageNumber + 1)}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+            <a href={isPdf ? `${fileUrl}#page=${pageNumber}` : fileUrl} target="_blank" rel="noreferrer" aria-label="Open document">
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {initialPage === null && (
+        <p className="px-3 py-2 text-xs text-amber-700 bg-amber-50 border-b">
+          The referenced page couldn't be located - showing the first page
+        </p>
+      )}
+
+      {isPdf ? (
+        <PdfPageView url={fileUrl} pageNumber={pageNumber} quotes={quotes} onPageCount={setPageCount} />
+      ) : (
+        <TextPageView uploadId={source.uploadId} pageNumber={pageNumber} quotes={quotes} onPageCount={setPageCount} />
+      )}
+    </div>
+  );
+}
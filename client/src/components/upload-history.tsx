@@ -1,12 +1,16 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useEffect } from "react";
 import { FileText, CheckCircle, Loader2, AlertTriangle, Eye, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getUploads, deleteUpload } from "@/services/upload";
 import { formatFileSize, formatUploadTime } from "@/utils/file";
+import { describeAnalysisError } from "@/utils/analysis-error";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
+import AnalysisProgress from "@/components/analysis-progress";
+import { emptyProgress, useUploadListProgress } from "@/hooks/use-upload-progress";
+import { useAuth } from "@/hooks/use-auth";
 import type { UploadFile } from "@/types/upload";
 
 const getStatusIcon = (status: string) => {
@@ -38,24 +42,19 @@ const getStatusColor = (status: string) => {
 export default function UploadHistory() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
 
   const { data: uploads = [], isLoading } = useQuery({
-    queryKey: ['/api/uploads'],
-    queryFn: getUploads,
+    queryKey: ['/api/uploads', { scope }],
+    queryFn: () => getUploads(scope),
   });
 
-  // Set up polling for processing uploads
-  useEffect(() => {
-    const hasProcessing = uploads && Array.isArray(uploads) && uploads.some(upload => upload.status === 'processing');
-    
-    if (hasProcessing) {
-      const interval = setInterval(() => {
-        queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
-      }, 2000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [uploads, queryClient]);
+  // All processing rows share one progress stream; refresh the list once one finishes
+  const progress = useUploadListProgress(
+    uploads.filter((upload) => upload.status === 'processing').map((upload) => upload.id),
+    () => queryClient.invalidateQueries({ queryKey: ['/api/uploads'] }),
+  );
 
   const deleteMutation = useMutation({
     mutationFn: deleteUpload,
@@ -101,9 +100,22 @@ export default function UploadHistory() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg font-semibold text-slate-800">Upload History</CardTitle>
-            <span className="text-sm text-slate-500">
-              {uploads.length} file{uploads.length !== 1 ? 's' : ''} processed
-            </span>
+            <div className="flex items-center space-x-4">
+              <div className="flex rounded-md border border-slate-200 text-xs">
+                {(['mine', 'all'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setScope(option)}
+                    className={`px-3 py-1 ${scope === option ? 'bg-primary text-primary-foreground' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {option === 'mine' ? 'My uploads' : 'Team'}
+                  </button>
+                ))}
+              </div>
+              <span className="text-sm text-slate-500">
+                {uploads.length} file{uploads.length !== 1 ? 's' : ''} processed
+              </span>
+            </div>
           </div>
         </CardHeader>
         
@@ -130,6 +142,18 @@ export default function UploadHistory() {
                         <p className="text-sm text-slate-500">
                           {formatUploadTime(upload.uploadTime)} • {formatFileSize(upload.fileSize)}
                         </p>
+                        {upload.status === 'processing' && (
+                          <AnalysisProgress
+                            uploadId={upload.id}
+                            compact
+                            progress={progress[upload.id] ?? emptyProgress()}
+                          />
+                        )}
+                        {upload.status === 'failed' && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {describeAnalysisError(upload.errorClass)}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-4">
@@ -145,15 +169,17 @@ export default function UploadHistory() {
                           </Button>
                         </Link>
                       )}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(upload.id)}
-                        className="text-slate-500 hover:text-red-600"
-                        disabled={deleteMutation.isPending}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {(upload.ownerId == null || upload.ownerId === user?.id) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(upload.id)}
+                          className="text-slate-500 hover:text-red-600"
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Lock, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { setUploadVisibility } from "@/services/upload";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { UploadFile } from "@/types/upload";
+
+interface UploadVisibilityToggleProps {
+  upload: UploadFile;
+}
+
+export default function UploadVisibilityToggle({ upload }: UploadVisibilityToggleProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const shared = upload.visibility === "team";
+
+  const visibilityMutation = useMutation({
+    mutationFn: () => setUploadVisibility(upload.id, shared ? "private" : "team"),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads", String(upload.id)] });
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      toast({
+        title: updated.visibility === "team" ? "Shared With Team" : "Made Private",
+        description:
+          updated.visibility === "team"
+            ? "Other reps can now open this report and its analysis."
+            : "Only you can open this report now.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Sharing Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only the owner decides who sees an upload; reports from before accounts
+  // have no owner and are visible to everyone already
+  if (upload.ownerId == null || upload.ownerId !== user?.id) return null;
+
+  return (
+    <Button
+      variant="outline"
+      onClick={() => visibilityMutation.mutate()}
+      disabled={visibilityMutation.isPending}
+      className="flex items-center space-x-2"
+    >
+      {shared ? <Users className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+      <span>{shared ? "Shared with team" : "Private"}</span>
+    </Button>
+  );
+}
@@ -15,6 +15,8 @@ export interface ChartDataPoint {
   description?: string;
   category?: string;
   color?: string;
+  formula?: string; // shown on hover for derived figures
+  formulaInputs?: string[];
 }
 
 export interface ChartConfig {
@@ -44,6 +46,7 @@ interface CurrencyInfo {
 
 const SUPPORTED_CURRENCIES: Record<string, CurrencyInfo> = {
   'S$': { symbol: 'S$', code: 'SGD', name: 'Singapore Dollar' },
+  'SGD': { symbol: 'S$', code: 'SGD', name: 'Singapore Dollar' },
   '$': { symbol: '$', code: 'USD', name: 'US Dollar' },
   'USD': { symbol: '$', code: 'USD', name: 'US Dollar' },
   '€': { symbol: '€', code: 'EUR', name: 'Euro' },
@@ -98,10 +101,68 @@ interface FinancialMatch {
   confidence: 'high' | 'medium' | 'low';
 }
 
+// Amounts added with financial prompt v2 - structured data only, no text fallback
+type ReportedAmountField = 'personnelCosts' | 'operatingExpenses' | 'researchAndDevelopment' | 'cash' | 'debt';
+
+// Metrics in the multi-year series added with financial prompt v3
+type HistoryMetric = 'revenue' | 'profit' | 'employees' | 'personnelCosts';
+
+interface HistoryPoint {
+  fiscalYear: string;
+  year: number | null;
+  value: number;
+}
+
 // Smart financial data resolver that prefers structured data with text extraction fallback
 class FinancialDataResolver {
+  static getHistory(analysisData: AnalysisData, metric: HistoryMetric): HistoryPoint[] {
+    const history = analysisData.financialMetrics?.history;
+    const normalizedYears = analysisData.financialMetrics?.normalized?.history?.years;
+    if (!history || history.confidence === 'low' || !normalizedYears) return [];
+
+    return normalizedYears
+      .map(entry => ({
+        fiscalYear: entry.fiscalYear,
+        year: entry.year,
+        value: metric === 'employees' ? entry.employees : entry[metric]?.value ?? null
+      }))
+      .filter((point): point is HistoryPoint => point.value !== null);
+  }
+
+  static getReportedAmount(analysisData: AnalysisData, field: ReportedAmountField): number | null {
+    const metric = analysisData.financialMetrics?.[field];
+    if (!metric || metric.confidence === 'low') return null;
+
+    const normalized = analysisData.financialMetrics?.normalized?.[field]?.amount;
+    if (normalized) return normalized.value;
+
+    return metric.amount ? this.parseFinancialValue(metric.amount) : null;
+  }
+
+  static getSegments(analysisData: AnalysisData): { name: string; value: number }[] {
+    const segments = analysisData.financialMetrics?.segments;
+    if (!segments || segments.confidence === 'low') return [];
+
+    const normalizedItems = analysisData.financialMetrics?.normalized?.segments?.items;
+    return segments.items
+      .map((segment, index) => ({
+        name: segment.name,
+        value: normalizedItems?.[index]?.revenue?.value
+          ?? (segment.revenue ? this.parseFinancialValue(segment.revenue) : null),
+      }))
+      .filter((segment): segment is { name: string; value: number } =>
+        segment.value !== null && segment.value > 0
+      );
+  }
+
   static getRevenue(analysisData: AnalysisData): number | null {
-    // Prefer structured data when available and reliable
+    // Prefer the server-normalized amount when available and reliable
+    const normalized = analysisData.financialMetrics?.normalized?.revenue.current;
+    if (normalized && analysisData.financialMetrics!.revenue.confidence !== 'low') {
+      return normalized.value;
+    }
+
+    // Older analyses only have the raw string
     if (analysisData.financialMetrics?.revenue?.current && 
         analysisData.financialMetrics.revenue.confidence !== 'low') {
       const value = this.parseFinancialValue(analysisData.financialMetrics.revenue.current);
@@ -130,7 +191,13 @@ class FinancialDataResolver {
   }
 
   static getProfit(analysisData: AnalysisData): number | null {
-    // Prefer structured data when available and reliable
+    // Prefer the server-normalized amount (negative for losses) when available and reliable
+    const normalized = analysisData.financialMetrics?.normalized?.profitLoss.amount;
+    if (normalized && analysisData.financialMetrics!.profitLoss.confidence !== 'low') {
+      return normalized.value;
+    }
+
+    // Older analyses only have the raw string
     if (analysisData.financialMetrics?.profitLoss?.amount && 
         analysisData.financialMetrics.profitLoss.confidence !== 'low') {
       const value = this.parseFinancialValue(analysisData.financialMetrics.profitLoss.amount);
@@ -146,7 +213,13 @@ class FinancialDataResolver {
   }
 
   static getAssets(analysisData: AnalysisData): number | null {
-    // Prefer structured data when available and reliable
+    // Prefer the server-normalized amount when available and reliable
+    const normalized = analysisData.financialMetrics?.normalized?.assets.total;
+    if (normalized && analysisData.financialMetrics!.assets.confidence !== 'low') {
+      return normalized.value;
+    }
+
+    // Older analyses only have the raw string
     if (analysisData.financialMetrics?.assets?.total && 
         analysisData.financialMetrics.assets.confidence !== 'low') {
       const value = this.parseFinancialValue(analysisData.financialMetrics.assets.total);
@@ -659,14 +732,17 @@ class FinancialDataExtractor {
     switch (type) {
       case 'currency':
         const currencySymbol = currency?.symbol || '$';
-        if (value >= 1000000000) {
-          return `${currencySymbol}${(value / 1000000000).toFixed(1)}B`;
-        } else if (value >= 1000000) {
-          return `${currencySymbol}${(value / 1000000).toFixed(1)}M`;
-        } else if (value >= 1000) {
-          return `${currencySymbol}${(value / 1000).toFixed(1)}K`;
+        // Losses keep their sign in front of the symbol, e.g. -$28.0M
+        const sign = value < 0 ? '-' : '';
+        const magnitude = Math.abs(value);
+        if (magnitude >= 1000000000) {
+          return `${sign}${currencySymbol}${(magnitude / 1000000000).toFixed(1)}B`;
+        } else if (magnitude >= 1000000) {
+          return `${sign}${currencySymbol}${(magnitude / 1000000).toFixed(1)}M`;
+        } else if (magnitude >= 1000) {
+          return `${sign}${currencySymbol}${(magnitude / 1000).toFixed(1)}K`;
         }
-        return `${currencySymbol}${value.toLocaleString()}`;
+        return `${sign}${currencySymbol}${magnitude.toLocaleString()}`;
       
       case 'number':
         return value.toLocaleString();
@@ -680,6 +756,12 @@ class FinancialDataExtractor {
   }
 
   static getExtractedCurrency(analysisData: AnalysisData): CurrencyInfo {
+    // The server resolves the ISO code alongside each normalized amount
+    const normalizedCurrency = analysisData.financialMetrics?.normalized?.revenue.current?.currency;
+    if (normalizedCurrency && SUPPORTED_CURRENCIES[normalizedCurrency]) {
+      return SUPPORTED_CURRENCIES[normalizedCurrency];
+    }
+
     const allText = this.getAllAnalysisText(analysisData);
     
     // Priority order: most specific currency symbols first to avoid conflicts
@@ -813,6 +895,56 @@ class DataExtractor {
   }
 }
 
+// Line chart of one metric across the fiscal years the report summarizes
+const createTrendTemplate = (
+  metric: HistoryMetric,
+  id: string,
+  name: string,
+  keywords: string[]
+): ChartTemplate => ({
+  id,
+  name,
+  description: `${name} across the fiscal years in the report`,
+  icon: 'TrendingUp',
+  generate: (analysisData: AnalysisData) => {
+    const series = FinancialDataResolver.getHistory(analysisData, metric);
+    if (series.length < 2) return null;
+
+    const isHeadcount = metric === 'employees';
+    const currency = FinancialDataExtractor.getExtractedCurrency(analysisData);
+    const format = (value: number) => isHeadcount
+      ? FinancialDataExtractor.formatFinancialValue(value, 'number')
+      : FinancialDataExtractor.formatFinancialValue(value, 'currency', currency);
+
+    const first = series[0];
+    const last = series[series.length - 1];
+    const span = first.year !== null && last.year !== null ? last.year - first.year : series.length - 1;
+    // Compound growth only makes sense between two positive values
+    const cagr = first.value > 0 && last.value > 0 && span > 0
+      ? (Math.pow(last.value / first.value, 1 / span) - 1) * 100
+      : null;
+
+    const seriesInsights = [...analysisData.businessContext, ...analysisData.workforceInsights]
+      .filter(insight => keywords.some(keyword => insight.dataPoint.toLowerCase().includes(keyword)));
+
+    return {
+      type: 'line',
+      title: isHeadcount ? name : `${name} (${currency.code} millions)`,
+      data: series.map(point => ({
+        name: point.fiscalYear,
+        // Amounts are plotted in millions so the axis stays readable
+        value: isHeadcount ? point.value : Math.round(point.value / 10000) / 100,
+        description: format(point.value),
+        category: isHeadcount ? 'workforce' : 'financial'
+      })),
+      colors: [isHeadcount || metric === 'personnelCosts' ? '#8b5cf6' : '#3b82f6'],
+      description: `${format(first.value)} in ${first.fiscalYear} to ${format(last.value)} in ${last.fiscalYear}` +
+        (cagr !== null ? ` (${cagr.toFixed(1)}% compound annual growth)` : ''),
+      insights: seriesInsights
+    };
+  }
+});
+
 // Chart template definitions
 export const chartTemplates: ChartTemplate[] = [
   {
@@ -863,21 +995,129 @@ export const chartTemplates: ChartTemplate[] = [
         }
       ];
 
+      // Cost and balance sheet figures, for reports extracted with financial prompt v2
+      const reportedAmounts: { field: ReportedAmountField; name: string; category: string }[] = [
+        { field: 'personnelCosts', name: 'Personnel Costs', category: 'workforce' },
+        { field: 'operatingExpenses', name: 'Operating Expenses', category: 'financial' },
+        { field: 'researchAndDevelopment', name: 'R&D Spend', category: 'financial' },
+        { field: 'cash', name: 'Cash & Equivalents', category: 'financial' },
+        { field: 'debt', name: 'Total Debt', category: 'financial' }
+      ];
+      let hasReportedAmounts = false;
+      if (analysisData.financialMetrics?.personnelCosts) {
+        reportedAmounts.forEach(({ field, name, category }) => {
+          const amount = FinancialDataResolver.getReportedAmount(analysisData, field);
+          if (amount !== null) hasReportedAmounts = true;
+          financialData.push({
+            name,
+            value: amount || 0,
+            description: amount !== null ? FinancialDataExtractor.formatFinancialValue(amount, 'currency', currency) : 'Data not available',
+            category
+          });
+        });
+      }
+
       // Only return the chart if we have at least one piece of financial data
-      const hasFinancialData = revenue || profit || employees;
+      const hasFinancialData = revenue || profit || employees || hasReportedAmounts;
       if (!hasFinancialData) return null;
 
       return {
         type: 'metric-cards',
         title: 'Financial Key Metrics',
         data: financialData,
-        colors: ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'],
+        colors: ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#ef4444', '#06b6d4', '#14b8a6', '#64748b'],
         description: `Key financial indicators extracted from the annual report (${currency.code})`,
         insights: analysisData.businessContext.filter(insight => 
           insight.dataPoint.toLowerCase().includes('revenue') ||
           insight.dataPoint.toLowerCase().includes('profit') ||
           insight.dataPoint.toLowerCase().includes('income') ||
-          insight.dataPoint.toLowerCase().includes('employ')
+          insight.dataPoint.toLowerCase().includes('employ') ||
+          insight.dataPoint.toLowerCase().includes('compensation') ||
+          insight.dataPoint.toLowerCase().includes('personnel')
+        )
+      };
+    }
+  },
+  {
+    id: 'workforce-kpis',
+    name: 'Workforce KPIs',
+    description: 'HR ratios calculated from the extracted financials',
+    icon: 'Users',
+    generate: (analysisData: AnalysisData) => {
+      // Computed server-side; analyses from before derived KPIs don't have them
+      const kpis = analysisData.financialMetrics?.kpis;
+      if (!kpis || kpis.every(kpi => kpi.value === null)) return null;
+
+      const data: ChartDataPoint[] = kpis.map(kpi => {
+        const currency = kpi.currency ? SUPPORTED_CURRENCIES[kpi.currency] : undefined;
+        const formatInput = (value: number | null, field: string) => {
+          if (value === null) return 'not reported';
+          return field.startsWith('employees') || field.endsWith('.employees')
+            ? FinancialDataExtractor.formatFinancialValue(value, 'number')
+            : FinancialDataExtractor.formatFinancialValue(value, 'currency', currency);
+        };
+
+        return {
+          name: kpi.label,
+          value: kpi.value ?? 0,
+          description: kpi.value === null
+            ? 'Data not available'
+            : kpi.unit === 'percentage'
+              ? FinancialDataExtractor.formatFinancialValue(kpi.value, 'percentage')
+              : FinancialDataExtractor.formatFinancialValue(kpi.value, 'currency', currency),
+          category: 'workforce',
+          formula: kpi.formula,
+          formulaInputs: [
+            ...kpi.inputs.map(input => `${input.name}: ${formatInput(input.value, input.field)}`),
+            ...(kpi.note ? [kpi.note] : [])
+          ]
+        };
+      });
+
+      return {
+        type: 'metric-cards',
+        title: 'Workforce KPIs',
+        data,
+        colors: ['#0ea5e9', '#f97316', '#22c55e', '#a855f7'],
+        description: 'Calculated from the reported figures - hover a card to see the formula and inputs',
+        insights: analysisData.workforceInsights.filter(insight =>
+          insight.dataPoint.toLowerCase().includes('employ') ||
+          insight.dataPoint.toLowerCase().includes('headcount') ||
+          insight.dataPoint.toLowerCase().includes('personnel')
+        )
+      };
+    }
+  },
+  createTrendTemplate('revenue', 'revenue-trend', 'Revenue Trend', ['revenue', 'sales', 'growth']),
+  createTrendTemplate('profit', 'profit-trend', 'Profit Trend', ['profit', 'income', 'earnings', 'margin']),
+  createTrendTemplate('employees', 'headcount-trend', 'Headcount Trend', ['employee', 'headcount', 'workforce', 'hiring']),
+  createTrendTemplate('personnelCosts', 'personnel-cost-trend', 'Personnel Cost Trend', ['compensation', 'personnel', 'salar', 'wage', 'benefit']),
+  {
+    id: 'segment-revenue',
+    name: 'Segment Revenue',
+    description: 'Revenue split across reportable segments',
+    icon: 'PieChart',
+    generate: (analysisData: AnalysisData) => {
+      const segments = FinancialDataResolver.getSegments(analysisData);
+      if (segments.length < 2) return null;
+
+      const currency = FinancialDataExtractor.getExtractedCurrency(analysisData);
+      const segmentData: ChartDataPoint[] = segments.map(segment => ({
+        name: segment.name,
+        value: segment.value,
+        description: FinancialDataExtractor.formatFinancialValue(segment.value, 'currency', currency),
+        category: 'financial'
+      }));
+
+      const segmentNames = segments.map(segment => segment.name.toLowerCase());
+      return {
+        type: 'pie',
+        title: 'Segment Revenue',
+        data: segmentData,
+        colors: ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4'],
+        description: analysisData.financialMetrics?.segments?.sourceText || `Revenue by reportable segment (${currency.code})`,
+        insights: analysisData.businessContext.filter(insight =>
+          segmentNames.some(name => insight.dataPoint.toLowerCase().includes(name))
         )
       };
     }
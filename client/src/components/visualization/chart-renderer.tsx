@@ -20,16 +20,19 @@ import {
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ExpandableBadge } from "@/components/insight/expandable-badge";
 import type { ChartConfig, ChartDataPoint } from "./chart-factory";
+import type { InsightSource } from "@/types/upload";
 
 interface ChartRendererProps {
   config: ChartConfig;
   className?: string;
+  source?: InsightSource;
 }
 
 const MetricCardsRenderer = ({ data, colors, title, description }: ChartConfig) => {
-  const isFinancialDashboard = title === 'Financial Key Metrics';
+  const isFinancialDashboard = title === 'Financial Key Metrics' || title === 'Workforce KPIs';
   
   return (
     <div className="space-y-4">
@@ -41,7 +44,7 @@ const MetricCardsRenderer = ({ data, colors, title, description }: ChartConfig)
         {data.map((item, index) => {
           const isDataAvailable = item.description !== 'Data not available';
           
-          return (
+          const card = (
             <Card key={item.name} className={`text-center ${!isDataAvailable ? 'opacity-60' : ''}`}>
               <CardContent className="pt-6">
                 <div 
@@ -53,11 +56,28 @@ const MetricCardsRenderer = ({ data, colors, title, description }: ChartConfig)
                 <div className="text-sm font-medium mb-1">{item.name}</div>
                 <div className="text-xs text-muted-foreground">
                   {isFinancialDashboard && !isDataAvailable ? item.description : 
+                   item.formula ? 'Calculated' :
                    isFinancialDashboard ? 'From annual report' : item.description}
                 </div>
               </CardContent>
             </Card>
           );
+
+          // Derived figures show how they were calculated on hover
+          if (!item.formula) return card;
+          return (
+            <Tooltip key={item.name}>
+              <TooltipTrigger asChild>
+                <div className="cursor-help">{card}</div>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-left">
+                <p className="font-medium">{item.formula}</p>
+                {item.formulaInputs?.map((line) => (
+                  <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          );
         })}
       </div>
     </div>
@@ -211,7 +231,7 @@ const RadarChartRenderer = ({ data, colors, title, description }: ChartConfig) =
   );
 };
 
-export default function ChartRenderer({ config, className }: ChartRendererProps) {
+export default function ChartRenderer({ config, className, source }: ChartRendererProps) {
   const { type } = config;
 
   const renderChart = () => {
@@ -248,6 +268,7 @@ export default function ChartRenderer({ config, className }: ChartRendererProps)
                 insight={insight}
                 variant="secondary"
                 className="text-xs"
+                source={source}
               />
             ))}
             {config.insights.length > 3 && (
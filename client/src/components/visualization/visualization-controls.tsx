@@ -14,7 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import ChartRenderer from "./chart-renderer";
 import ChartExport from "./chart-export";
 import { ChartFactory, chartTemplates, type ChartConfig } from "./chart-factory";
-import type { AnalysisData } from "@/types/upload";
+import type { AnalysisData, InsightSource } from "@/types/upload";
 
 export type ViewMode = 'text' | 'visual' | 'combined' | 'financial';
 
@@ -23,6 +23,7 @@ interface VisualizationControlsProps {
   fileName: string;
   defaultView?: ViewMode | 'financial';
   onViewModeChange?: (mode: ViewMode) => void;
+  source?: InsightSource;
 }
 
 const colorSchemes = [
@@ -48,7 +49,8 @@ export default function VisualizationControls({
   analysisData, 
   fileName, 
   defaultView = 'combined',
-  onViewModeChange 
+  onViewModeChange,
+  source
 }: VisualizationControlsProps) {
   const [viewMode, setViewMode] = useState<ViewMode>(defaultView);
   const [selectedCharts, setSelectedCharts] = useState<string[]>([]);
@@ -115,7 +117,7 @@ export default function VisualizationControls({
         {financialCharts.map((config, index) => (
           <Card key={index}>
             <CardContent className="pt-6">
-              <ChartRenderer config={config} />
+              <ChartRenderer config={config} source={source} />
             </CardContent>
           </Card>
         ))}
@@ -224,7 +226,7 @@ export default function VisualizationControls({
           visibleCharts.map((config, index) => (
             <Card key={index}>
               <CardContent className="pt-6">
-                <ChartRenderer config={config} />
+                <ChartRenderer config={config} source={source} />
               </CardContent>
             </Card>
           ))
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  PipelineStage,
+  ProgressEvent,
+  StageProgress,
+  UploadFile,
+} from "@/types/upload";
+import { describeAnalysisError } from "@/utils/analysis-error";
+
+export const PIPELINE_STAGES: { stage: PipelineStage; label: string }[] = [
+  { stage: "business_overview", label: "Business Overview" },
+  { stage: "financial", label: "Financial Metrics" },
+  { stage: "hr", label: "HR Insights" },
+];
+
+const initialStages = (): StageProgress[] =>
+  PIPELINE_STAGES.map(({ stage }) => ({ stage, status: "pending" }));
+
+export interface UploadProgressState {
+  status: UploadFile["status"] | null;
+  stages: StageProgress[];
+  attempt?: number;
+  error?: string;
+}
+
+const applyEvent = (
+  state: UploadProgressState,
+  event: ProgressEvent,
+): UploadProgressState => {
+  const updateStage = (update: Partial<StageProgress>) =>
+    state.stages.map((stage) =>
+      stage.stage === event.stage ? { ...stage, ...update } : stage,
+    );
+
+  switch (event.type) {
+    case "status":
+      return { ...state, status: event.status ?? state.status };
+    case "analysis_started":
+      return { status: "processing", stages: initialStages(), attempt: event.attempt };
+    case "stage_started":
+      return { ...state, stages: updateStage({ status: "running" }) };
+    case "stage_completed":
+      return { ...state, stages: updateStage({ status: "completed", duration: event.duration }) };
+    case "stage_failed":
+      return {
+        ...state,
+        stages: updateStage({ status: "failed", duration: event.duration, message: event.message }),
+      };
+    case "stage_degraded":
+      return event.stage
+        ? { ...state, stages: updateStage({ status: "degraded", message: event.message }) }
+        : state;
+    case "analysis_completed":
+      return { ...state, status: "completed" };
+    case "analysis_failed":
+      return {
+        ...state,
+        status: "failed",
+        error: event.errorClass ? describeAnalysisError(event.errorClass) : event.message,
+      };
+    default:
+      return state;
+  }
+};
+
+export const emptyProgress = (): UploadProgressState => ({ status: null, stages: initialStages() });
+
+// The status an event leaves the upload in, or null while it is still processing
+const finishedStatus = (event: ProgressEvent): UploadFile["status"] | null => {
+  if (event.type === "analysis_completed") return "completed";
+  if (event.type === "analysis_failed") return "failed";
+  if (event.type === "status" && event.status !== "processing") return event.status ?? null;
+  return null;
+};
+
+/**
+ * Subscribes to the upload's progress stream while it is processing.
+ * onFinished fires once the analysis completes or fails.
+ */
+export function useUploadProgress(
+  uploadId: number,
+  enabled: boolean,
+  onFinished?: (status: UploadFile["status"]) => void,
+) {
+  const [state, setState] = useState<UploadProgressState>(emptyProgress);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource(`/api/uploads/${uploadId}/events`);
+
+    source.onmessage = (message) => {
+      const event: ProgressEvent = JSON.parse(message.data);
+      setState((prev) => applyEvent(prev, event));
+
+      const finished = finishedStatus(event);
+      if (finished) {
+        source.close();
+        onFinishedRef.current?.(finished);
+      }
+    };
+
+    return () => source.close();
+  }, [uploadId, enabled]);
+
+  return state;
+}
+
+/**
+ * Follows several processing uploads over one shared stream, keyed by upload
+ * id; browsers only allow a handful of open connections per origin, so a list
+ * can't open a stream per row. onFinished fires as each analysis ends.
+ */
+export function useUploadListProgress(
+  uploadIds: number[],
+  onFinished?: (uploadId: number, status: UploadFile["status"]) => void,
+) {
+  const [progress, setProgress] = useState<Record<number, UploadProgressState>>({});
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  // Reconnect only when the set of uploads changes, not on every render
+  const idsKey = Array.from(new Set(uploadIds)).sort((a, b) => a - b).join(",");
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    const source = new EventSource(`/api/uploads/events?ids=${idsKey}`);
+
+    source.onmessage = (message) => {
+      const event: ProgressEvent & { uploadId: number } = JSON.parse(message.data);
+      setProgress((prev) => ({
+        ...prev,
+        [event.uploadId]: applyEvent(prev[event.uploadId] ?? emptyProgress(), event),
+      }));
+
+      const finished = finishedStatus(event);
+      if (finished) {
+        onFinishedRef.current?.(event.uploadId, finished);
+      }
+    };
+
+    return () => source.close();
+  }, [idsKey]);
+
+  return progress;
+}
@@ -0,0 +1,62 @@
+// Word-level matching used to highlight an insight's quote on a document page
+
+export interface WordSpan {
+  start: number; // index of the first matched word
+  end: number; // index of the last matched word (inclusive)
+}
+
+// Shortest run of consecutive words worth highlighting
+const MIN_SPAN_WORDS = 3;
+
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[‘’“”"'`]/g, "")
+    .replace(/[^a-z0-9%$.]/g, "")
+    .replace(/\.+$/, "");
+}
+
+export function toWords(text: string): string[] {
+  return text.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+// Longest run of consecutive words shared by the page and the quote
+function longestCommonRun(pageWords: string[], quoteWords: string[]): WordSpan & { length: number } {
+  let best = { start: -1, end: -1, length: 0 };
+  let previous = new Array<number>(quoteWords.length + 1).fill(0);
+
+  for (let i = 1; i <= pageWords.length; i++) {
+    const current = new Array<number>(quoteWords.length + 1).fill(0);
+    for (let j = 1; j <= quoteWords.length; j++) {
+      if (pageWords[i - 1] && pageWords[i - 1] === quoteWords[j - 1]) {
+        current[j] = previous[j - 1] + 1;
+        if (current[j] > best.length) {
+          best = { start: i - current[j], end: i - 1, length: current[j] };
+        }
+      }
+    }
+    previous = current;
+  }
+
+  return best;
+}
+
+/**
+ * Finds the span of `pageWords` (already normalized) that best matches any of
+ * the candidate quotes, or null if nothing long enough matches
+ */
+export function findQuoteSpan(pageWords: string[], quotes: (string | undefined)[]): WordSpan | null {
+  let best: (WordSpan & { length: number }) | null = null;
+
+  for (const quote of quotes) {
+    if (!quote) continue;
+    const quoteWords = toWords(quote);
+    const run = longestCommonRun(pageWords, quoteWords);
+    const required = Math.min(MIN_SPAN_WORDS, quoteWords.length);
+    if (run.length >= required && run.length > 0 && (!best || run.length > best.length)) {
+      best = run;
+    }
+  }
+
+  return best ? { start: best.start, end: best.end } : null;
+}
@@ -10,25 +10,42 @@ import {
   Target,
   Building,
   RefreshCw,
+  ShieldAlert,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import Header from "@/components/header";
-import { getUploadById, reanalyzeUpload } from "@/services/upload";
+import { getUploadById, reanalyzeUpload, rerunStage } from "@/services/upload";
 import { formatFileSize, formatUploadTime } from "@/utils/file";
+import { describeAnalysisError } from "@/utils/analysis-error";
 import { Link } from "wouter";
 import VisualizationControls from "@/components/visualization/visualization-controls";
-import type { AnalysisData, HRInsight, BusinessOverview } from "@/types/upload";
+import type {
+  AnalysisData,
+  HRInsight,
+  BusinessOverview,
+  InsightSource,
+  PipelineStage,
+  ProcessingStats,
+  ValidationFlag,
+} from "@/types/upload";
 import { useToast } from "@/hooks/use-toast";
 import { ExpandableBadge } from "@/components/insight/expandable-badge";
+import AnalysisProgress from "@/components/analysis-progress";
+import AnalysisVersionPicker from "@/components/analysis-version-picker";
+import CompanyLinkPicker from "@/components/company-link-picker";
+import UploadVisibilityToggle from "@/components/upload-visibility-toggle";
+import { PIPELINE_STAGES } from "@/hooks/use-upload-progress";
 
 interface InsightSectionProps {
   title: string;
   icon: React.ReactNode;
   insights: HRInsight[];
   description: string;
+  source: InsightSource;
 }
 
 function InsightSection({
@@ -36,6 +53,7 @@ function InsightSection({
   icon,
   insights,
   description,
+  source,
 }: InsightSectionProps) {
   if (!insights || insights.length === 0) {
     return (
@@ -73,6 +91,7 @@ function InsightSection({
               insight={insight}
               displayMode="card"
               showPageReference={true}
+              source={source}
             />
           ))}
         </div>
@@ -184,6 +203,72 @@ function BusinessOverviewSection({
   );
 }
 
+function ValidationFlagsNotice({ flags }: { flags: ValidationFlag[] }) {
+  const concerns = flags.filter((flag) => flag.severity !== "info");
+  if (concerns.length === 0) return null;
+
+  const hasErrors = concerns.some((flag) => flag.severity === "error");
+  return (
+    <Alert variant={hasErrors ? "destructive" : "default"} className={hasErrors ? "" : "border-amber-300 bg-amber-50"}>
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Financial figures flagged for review</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc list-inside space-y-1 mt-1">
+          {concerns.map((flag) => (
+            <li key={flag.rule}>{flag.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Older analyses only recorded per-stage success flags
+const degradedStagesOf = (stats: ProcessingStats): PipelineStage[] =>
+  stats.degradedStages ??
+  PIPELINE_STAGES.filter((_, index) => !stats[`stage${index as 0 | 1 | 2}Success`]).map(
+    ({ stage }) => stage,
+  );
+
+function DegradedStagesNotice({
+  stages,
+  onRerun,
+  rerunning,
+}: {
+  stages: PipelineStage[];
+  onRerun: (stage: PipelineStage) => void;
+  rerunning: boolean;
+}) {
+  if (stages.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Parts of this analysis are incomplete</AlertTitle>
+      <AlertDescription>
+        <p className="mt-1">
+          These stages failed and were filled in with placeholder content. Re-running a stage
+          keeps the rest of the analysis as it is.
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          {PIPELINE_STAGES.filter(({ stage }) => stages.includes(stage)).map(({ stage, label }) => (
+            <Button
+              key={stage}
+              size="sm"
+              variant="outline"
+              disabled={rerunning}
+              onClick={() => onRerun(stage)}
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Re-run {label}
+            </Button>
+          ))}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
 export default function Analysis() {
   const { id } = useParams();
   const { toast } = useToast();
@@ -217,6 +302,24 @@ export default function Analysis() {
     },
   });
 
+  const rerunStageMutation = useMutation({
+    mutationFn: (stage: PipelineStage) => rerunStage(parseInt(id!), stage),
+    onSuccess: () => {
+      toast({
+        title: "Stage Re-run Started",
+        description: "The stage is being regenerated; the rest of the analysis is kept.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads", id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Stage Re-run Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const analysisData: AnalysisData | null = upload?.analysisData
     ? JSON.parse(upload.analysisData)
     : null;
@@ -274,14 +377,26 @@ export default function Analysis() {
           <Card>
             <CardContent className="pt-6">
               <div className="text-center py-12">
-                <div className="animate-spin w-12 h-12 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-slate-900 mb-2">
-                  Analysis In Progress
+                  {upload.status === "failed" ? "Analysis Failed" : "Analysis In Progress"}
                 </h3>
-                <p className="text-slate-600 mb-4">
-                  Your file is being processed. This usually takes a few
-                  minutes.
+                <p className="text-slate-600 mb-6">
+                  {upload.status === "failed"
+                    ? describeAnalysisError(upload.errorClass)
+                    : "Your file is being processed. This usually takes a few minutes."}
                 </p>
+                {upload.status === "processing" && (
+                  <div className="mb-6">
+                    <AnalysisProgress
+                      uploadId={upload.id}
+                      onFinished={() =>
+                        queryClient.invalidateQueries({
+                          queryKey: ["/api/uploads", id],
+                        })
+                      }
+                    />
+                  </div>
+                )}
                 <Link href="/">
                   <Button variant="outline">
                     <ArrowLeft className="w-4 h-4 mr-2" />
@@ -296,6 +411,8 @@ export default function Analysis() {
     );
   }
 
+  const insightSource: InsightSource = { uploadId: upload.id, fileName: upload.fileName };
+
   return (
     <div className="min-h-screen bg-slate-50">
       <Header />
@@ -326,6 +443,9 @@ export default function Analysis() {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <CompanyLinkPicker upload={upload} />
+              <UploadVisibilityToggle upload={upload} />
+              <AnalysisVersionPicker uploadId={upload.id} />
               <Button
                 onClick={() => reanalyzeMutation.mutate()}
                 disabled={
@@ -345,10 +465,28 @@ export default function Analysis() {
               </Button>
             </div>
           </div>
+          {upload.errorClass && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>The last re-analysis failed</AlertTitle>
+              <AlertDescription>
+                {describeAnalysisError(upload.errorClass)} The version shown is the one from before
+                that attempt.
+              </AlertDescription>
+            </Alert>
+          )}
         </div>
 
         {/* Simplified Single View */}
         <div className="space-y-8">
+          {analysisData.processingStats && (
+            <DegradedStagesNotice
+              stages={degradedStagesOf(analysisData.processingStats)}
+              onRerun={(stage) => rerunStageMutation.mutate(stage)}
+              rerunning={rerunStageMutation.isPending}
+            />
+          )}
+
           {/* Executive Summary */}
           <Card>
             <CardHeader>
@@ -371,11 +509,17 @@ export default function Analysis() {
             />
           )}
 
+          {/* Rule-based checks on the extracted figures */}
+          {analysisData.financialMetrics?.validation.flags && (
+            <ValidationFlagsNotice flags={analysisData.financialMetrics.validation.flags} />
+          )}
+
           {/* Financial Key Metrics */}
           <VisualizationControls
             analysisData={analysisData}
             fileName={upload.fileName}
             defaultView="financial"
+            source={insightSource}
           />
 
           {/* HR Insights */}
@@ -385,6 +529,7 @@ export default function Analysis() {
               icon={<Building className="w-5 h-5 mr-2 text-primary" />}
               insights={analysisData.businessContext}
               description="Revenue, expansion, and strategic priorities"
+              source={insightSource}
             />
 
             <InsightSection
@@ -392,6 +537,7 @@ export default function Analysis() {
               icon={<Users className="w-5 h-5 mr-2 text-primary" />}
               insights={analysisData.workforceInsights}
               description="Employee data, hiring challenges, and talent initiatives"
+              source={insightSource}
             />
 
             <InsightSection
@@ -399,6 +545,7 @@ export default function Analysis() {
               icon={<AlertTriangle className="w-5 h-5 mr-2 text-primary" />}
               insights={analysisData.operationalChallenges}
               description="Compliance, technology, and efficiency initiatives"
+              source={insightSource}
             />
 
             <InsightSection
@@ -406,6 +553,7 @@ export default function Analysis() {
               icon={<TrendingUp className="w-5 h-5 mr-2 text-primary" />}
               insights={analysisData.strategicPeopleInitiatives}
               description="ESG, remote work, learning, and culture initiatives"
+              source={insightSource}
             />
           </div>
         </div>
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Logo } from "@/components/ui/logo";
+import { useAuth } from "@/hooks/use-auth";
+
+interface CredentialsFormProps {
+  submitLabel: string;
+  isPending: boolean;
+  minPasswordLength?: number;
+  onSubmit: (credentials: { username: string; password: string }) => void;
+}
+
+function CredentialsForm({
+  submitLabel,
+  isPending,
+  minPasswordLength,
+  onSubmit,
+}: CredentialsFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username: username.trim(), password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${submitLabel}-username`}>Username</Label>
+        <Input
+          id={`${submitLabel}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${submitLabel}-password`}>Password</Label>
+        <Input
+          id={`${submitLabel}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={minPasswordLength ? "new-password" : "current-password"}
+          minLength={minPasswordLength}
+          required
+        />
+        {minPasswordLength && (
+          <p className="text-xs text-muted-foreground">
+            At least {minPasswordLength} characters
+          </p>
+        )}
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, signupMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background geometric-bg flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="items-center text-center">
+          <Logo size="large" variant="standalone" />
+          <CardTitle className="mt-4">Sign in to Discovery Prep</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Your uploads and analyses are saved to your account
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login">Log In</TabsTrigger>
+              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                submitLabel="Log In"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="signup">
+              <CredentialsForm
+                submitLabel="Create Account"
+                isPending={signupMutation.isPending}
+                minPasswordLength={8}
+                onSubmit={(credentials) => signupMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
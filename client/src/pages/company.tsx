@@ -0,0 +1,221 @@
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Building2, Calendar, Eye, FileText, GitCompare, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import Header from "@/components/header";
+import { getCompany } from "@/services/upload";
+import { formatFileSize, formatUploadTime } from "@/utils/file";
+import type { CompanyProfile } from "@/types/upload";
+
+type CompanyUpload = CompanyProfile["uploads"][number];
+
+// Uploads arrive latest fiscal year first; undated ones are grouped last
+const groupByFiscalYear = (uploads: CompanyUpload[]) => {
+  const groups = new Map<string, CompanyUpload[]>();
+  for (const upload of uploads) {
+    const label = upload.fiscalYear ? `FY${upload.fiscalYear}` : "Fiscal year unknown";
+    groups.set(label, [...(groups.get(label) ?? []), upload]);
+  }
+  return Array.from(groups.entries());
+};
+
+// The next older analyzed report, used as the baseline for a year-over-year comparison
+const previousReport = (uploads: CompanyUpload[], upload: CompanyUpload) =>
+  uploads
+    .slice(uploads.indexOf(upload) + 1)
+    .find(
+      (candidate) =>
+        candidate.status === "completed" &&
+        (!candidate.fiscalYear || candidate.fiscalYear !== upload.fiscalYear),
+    );
+
+// Every analysis run across the company's reports, newest first
+const buildTimeline = (uploads: CompanyUpload[]) =>
+  uploads
+    .flatMap((upload) => upload.analyses.map((run) => ({ run, upload })))
+    .sort((a, b) => new Date(b.run.createdAt).getTime() - new Date(a.run.createdAt).getTime());
+
+function BackToDashboard() {
+  return (
+    <Link href="/">
+      <Button variant="outline" className="mb-4">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to Dashboard
+      </Button>
+    </Link>
+  );
+}
+
+export default function Company() {
+  const { id } = useParams();
+
+  const { data: company, isLoading, error } = useQuery({
+    queryKey: ["/api/companies", id],
+    queryFn: () => getCompany(parseInt(id!)),
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="space-y-6">
+            <Skeleton className="h-8 w-48" />
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !company) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center py-12">
+                <Building2 className="w-12 h-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-slate-900 mb-2">Company Not Found</h3>
+                <p className="text-slate-600 mb-4">The requested company could not be found.</p>
+                <BackToDashboard />
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const timeline = buildTimeline(company.uploads);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <BackToDashboard />
+
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+              <Building2 className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900">{company.name}</h1>
+              <div className="flex items-center space-x-2 mt-1">
+                {company.ticker && <Badge variant="secondary">{company.ticker}</Badge>}
+                {company.industry && <Badge variant="outline">{company.industry}</Badge>}
+                <span className="text-sm text-slate-600">
+                  {company.uploads.length} report{company.uploads.length !== 1 ? "s" : ""}
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-3">
+          {/* Reports by fiscal year */}
+          <div className="lg:col-span-2 space-y-6">
+            {company.uploads.length === 0 && (
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-slate-500 italic">No reports are linked to this company yet.</p>
+                </CardContent>
+              </Card>
+            )}
+            {groupByFiscalYear(company.uploads).map(([label, uploads]) => (
+              <Card key={label}>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Calendar className="w-5 h-5 mr-2 text-primary" />
+                    {label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y divide-slate-200">
+                  {uploads.map((upload) => {
+                    const previous = previousReport(company.uploads, upload);
+                    return (
+                      <div key={upload.id} className="flex items-center justify-between py-3">
+                        <div className="flex items-center space-x-3">
+                          <FileText className="w-5 h-5 text-red-600" />
+                          <div>
+                            <p className="font-medium text-slate-800">{upload.fileName}</p>
+                            <p className="text-sm text-slate-500">
+                              {formatUploadTime(upload.uploadTime)} • {formatFileSize(upload.fileSize)} •{" "}
+                              {upload.companyLinkedBy === "manual" ? "linked manually" : "linked automatically"}
+                            </p>
+                          </div>
+                        </div>
+                        {upload.status === "completed" && (
+                          <div className="flex items-center space-x-2">
+                            {previous && (
+                              <Link href={`/compare/${previous.id}/${upload.id}`}>
+                                <Button variant="ghost" size="sm">
+                                  <GitCompare className="w-4 h-4 mr-1" />
+                                  Compare with {previous.fiscalYear ? `FY${previous.fiscalYear}` : "previous"}
+                                </Button>
+                              </Link>
+                            )}
+                            <Link href={`/analysis/${upload.id}`}>
+                              <Button variant="outline" size="sm" className="text-primary">
+                                <Eye className="w-4 h-4 mr-1" />
+                                View Analysis
+                              </Button>
+                            </Link>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Analysis timeline */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="w-5 h-5 mr-2 text-primary" />
+                Analysis Timeline
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-slate-500 italic">No analyses yet.</p>
+              ) : (
+                <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+                  {timeline.map(({ run, upload }) => (
+                    <li key={run.id} className="ml-4">
+                      <span className="absolute -left-1.5 w-3 h-3 rounded-full bg-primary/60 border border-white" />
+                      <Link href={`/analysis/${upload.id}`}>
+                        <span className="text-sm font-medium text-slate-800 hover:text-primary cursor-pointer">
+                          {upload.fiscalYear ? `FY${upload.fiscalYear}` : upload.fileName}
+                        </span>
+                      </Link>
+                      <p className="text-xs text-slate-500">
+                        {new Date(run.createdAt).toLocaleString()} • {run.pipelineMode}
+                      </p>
+                      {run.isCurrent && (
+                        <Badge variant="secondary" className="mt-1">
+                          Current
+                        </Badge>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
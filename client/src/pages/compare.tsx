@@ -0,0 +1,302 @@
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  Building,
+  GitCompare,
+  Minus,
+  Plus,
+  ShieldAlert,
+  TrendingUp,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import Header from "@/components/header";
+import { compareAnalyses } from "@/services/upload";
+import type {
+  AnalysisComparison,
+  CategoryDiff,
+  FinancialDelta,
+  HRInsight,
+  InsightCategory,
+} from "@/types/upload";
+
+const CATEGORY_SECTIONS: { category: InsightCategory; title: string; icon: React.ReactNode }[] = [
+  {
+    category: "businessContext",
+    title: "Business Context",
+    icon: <Building className="w-5 h-5 mr-2 text-primary" />,
+  },
+  {
+    category: "workforceInsights",
+    title: "Workforce Insights",
+    icon: <Users className="w-5 h-5 mr-2 text-primary" />,
+  },
+  {
+    category: "operationalChallenges",
+    title: "Operational Challenges",
+    icon: <AlertTriangle className="w-5 h-5 mr-2 text-primary" />,
+  },
+  {
+    category: "strategicPeopleInitiatives",
+    title: "Strategic People Initiatives",
+    icon: <TrendingUp className="w-5 h-5 mr-2 text-primary" />,
+  },
+];
+
+const reportLabel = (upload: AnalysisComparison["base"]) =>
+  upload.fiscalYear ? `FY${upload.fiscalYear}` : upload.fileName;
+
+const formatDeltaValue = (value: number | null, currency: string | null) => {
+  if (value === null) return "N/A";
+  if (!currency) return value.toLocaleString();
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString()}`;
+  }
+};
+
+function FinancialDeltaRow({ delta }: { delta: FinancialDelta }) {
+  const direction = delta.change === null ? 0 : Math.sign(delta.change);
+  return (
+    <tr className="border-t border-slate-200">
+      <td className="py-2 pr-4 font-medium text-slate-800">{delta.label}</td>
+      <td className="py-2 pr-4 text-slate-600">{formatDeltaValue(delta.base, delta.currency)}</td>
+      <td className="py-2 pr-4 text-slate-800">{formatDeltaValue(delta.target, delta.currency)}</td>
+      <td
+        className={`py-2 text-right ${
+          direction > 0 ? "text-green-700" : direction < 0 ? "text-red-700" : "text-slate-500"
+        }`}
+      >
+        {delta.currencyMismatch
+          ? "Currencies differ"
+          : delta.percentChange !== null
+            ? `${delta.percentChange > 0 ? "+" : ""}${delta.percentChange}%`
+            : delta.change !== null
+              ? formatDeltaValue(delta.change, delta.currency)
+              : "—"}
+      </td>
+    </tr>
+  );
+}
+
+function DiffList<T>({
+  diff,
+  render,
+}: {
+  diff: CategoryDiff<T>;
+  render: (item: T) => React.ReactNode;
+}) {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return (
+      <p className="text-slate-500 italic">
+        No changes{diff.unchanged > 0 ? ` (${diff.unchanged} unchanged)` : ""}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {diff.added.map((item, index) => (
+        <div key={`added-${index}`} className="flex items-start space-x-2 rounded-md bg-green-50 p-3">
+          <Plus className="w-4 h-4 mt-0.5 text-green-700 shrink-0" />
+          <div className="text-slate-800">{render(item)}</div>
+        </div>
+      ))}
+      {diff.removed.map((item, index) => (
+        <div key={`removed-${index}`} className="flex items-start space-x-2 rounded-md bg-red-50 p-3">
+          <Minus className="w-4 h-4 mt-0.5 text-red-700 shrink-0" />
+          <div className="text-slate-600 line-through decoration-red-300">{render(item)}</div>
+        </div>
+      ))}
+      {diff.changed.map((change, index) => (
+        <div key={`changed-${index}`} className="grid gap-2 rounded-md bg-amber-50 p-3 md:grid-cols-[1fr_auto_1fr]">
+          <div className="text-slate-600">{render(change.base)}</div>
+          <ArrowRight className="w-4 h-4 text-amber-700 self-center hidden md:block" />
+          <div className="text-slate-800">{render(change.target)}</div>
+        </div>
+      ))}
+      {diff.unchanged > 0 && (
+        <p className="text-xs text-slate-500">{diff.unchanged} unchanged</p>
+      )}
+    </div>
+  );
+}
+
+const renderInsight = (insight: HRInsight) => (
+  <>
+    <p className="font-medium">{insight.dataPoint}</p>
+    <p className="text-sm text-slate-500 mt-1">{insight.hrRelevance}</p>
+  </>
+);
+
+export default function Compare() {
+  const { baseId, targetId } = useParams();
+
+  const { data: comparison, isLoading, error } = useQuery({
+    queryKey: ["/api/uploads", targetId, "compare", baseId],
+    queryFn: () => compareAnalyses(parseInt(targetId!), parseInt(baseId!)),
+    enabled: !!baseId && !!targetId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="space-y-6">
+            <Skeleton className="h-8 w-48" />
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center py-12">
+                <GitCompare className="w-12 h-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-slate-900 mb-2">Comparison Not Available</h3>
+                <p className="text-slate-600 mb-4">
+                  {error?.message ?? "Both reports need a completed analysis to compare."}
+                </p>
+                <Link href="/">
+                  <Button>
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back to Dashboard
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const { base, target, diff } = comparison;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link href={target.companyId ? `/companies/${target.companyId}` : "/"}>
+            <Button variant="outline" className="mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {target.companyId ? "Back to Company" : "Back to Dashboard"}
+            </Button>
+          </Link>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+                <GitCompare className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-slate-900">
+                  {reportLabel(base)} → {reportLabel(target)}
+                </h1>
+                <p className="text-slate-600">
+                  <Link href={`/analysis/${base.id}`}>
+                    <span className="hover:text-primary cursor-pointer">{base.fileName}</span>
+                  </Link>{" "}
+                  compared with{" "}
+                  <Link href={`/analysis/${target.id}`}>
+                    <span className="hover:text-primary cursor-pointer">{target.fileName}</span>
+                  </Link>
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Badge className="bg-green-100 text-green-800">{diff.summary.added} added</Badge>
+              <Badge className="bg-red-100 text-red-800">{diff.summary.removed} removed</Badge>
+              <Badge className="bg-amber-100 text-amber-800">{diff.summary.changed} changed</Badge>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          {/* Financial deltas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <TrendingUp className="w-5 h-5 mr-2 text-primary" />
+                Financial Changes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {diff.financialDeltas.length === 0 ? (
+                <p className="text-slate-500 italic">Neither report has financial figures to compare.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="pb-2 pr-4 font-medium">Metric</th>
+                      <th className="pb-2 pr-4 font-medium">{reportLabel(base)}</th>
+                      <th className="pb-2 pr-4 font-medium">{reportLabel(target)}</th>
+                      <th className="pb-2 text-right font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.financialDeltas.map((delta) => (
+                      <FinancialDeltaRow key={delta.metric} delta={delta} />
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Risk language */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldAlert className="w-5 h-5 mr-2 text-primary" />
+                Risk Language
+              </CardTitle>
+              <p className="text-sm text-slate-600">Operational challenges named in the business overview</p>
+            </CardHeader>
+            <CardContent>
+              <DiffList diff={diff.riskLanguage} render={(challenge) => challenge} />
+            </CardContent>
+          </Card>
+
+          {/* HR insight categories */}
+          {CATEGORY_SECTIONS.map(({ category, title, icon }) => (
+            <Card key={category}>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  {icon}
+                  {title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DiffList diff={diff.insights[category]} render={renderInsight} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
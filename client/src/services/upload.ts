@@ -1,9 +1,35 @@
 import { apiRequest } from "@/lib/queryClient";
-import type { UploadFile } from "@/types/upload";
+import type {
+  UploadFile,
+  AnalysisRun,
+  PageText,
+  Company,
+  CompanyProfile,
+  CompanyLinkRequest,
+  AnalysisComparison,
+  PipelineStage,
+  DuplicateUpload,
+  DuplicateUploadAction,
+  UploadVisibility,
+} from "@/types/upload";
 
-export const uploadFile = async (file: File): Promise<UploadFile> => {
+// Thrown when the file was uploaded and analyzed before; retry with an onDuplicate action
+export class DuplicateUploadError extends Error {
+  constructor(readonly duplicate: DuplicateUpload) {
+    super(`${duplicate.fileName} has already been analyzed`);
+    this.name = 'DuplicateUploadError';
+  }
+}
+
+export const uploadFile = async (
+  file: File,
+  onDuplicate?: DuplicateUploadAction,
+): Promise<UploadFile> => {
   const formData = new FormData();
   formData.append('file', file);
+  if (onDuplicate) {
+    formData.append('onDuplicate', onDuplicate);
+  }
 
   const res = await fetch('/api/uploads', {
     method: 'POST',
@@ -11,6 +37,11 @@ export const uploadFile = async (file: File): Promise<UploadFile> => {
     credentials: 'include',
   });
 
+  if (res.status === 409) {
+    const { duplicate } = await res.json();
+    throw new DuplicateUploadError(duplicate);
+  }
+
   if (!res.ok) {
     const errorText = await res.text();
     throw new Error(`Upload failed: ${errorText}`);
@@ -19,8 +50,8 @@ export const uploadFile = async (file: File): Promise<UploadFile> => {
   return await res.json();
 };
 
-export const getUploads = async (): Promise<UploadFile[]> => {
-  const res = await apiRequest('GET', '/api/uploads');
+export const getUploads = async (scope: 'mine' | 'all' = 'mine'): Promise<UploadFile[]> => {
+  const res = await apiRequest('GET', scope === 'all' ? '/api/uploads?scope=all' : '/api/uploads');
   return await res.json();
 };
 
@@ -34,6 +65,64 @@ export const reanalyzeUpload = async (id: number): Promise<UploadFile> => {
   return await res.json();
 };
 
+export const rerunStage = async (id: number, stage: PipelineStage): Promise<UploadFile> => {
+  const res = await apiRequest('POST', `/api/uploads/${id}/stages/${stage}/rerun`);
+  return await res.json();
+};
+
+export const getAnalysisRuns = async (id: number): Promise<AnalysisRun[]> => {
+  const res = await apiRequest('GET', `/api/uploads/${id}/analyses`);
+  return await res.json();
+};
+
+export const pinAnalysisRun = async (id: number, analysisId: number): Promise<UploadFile> => {
+  const res = await apiRequest('POST', `/api/uploads/${id}/analyses/${analysisId}/pin`);
+  return await res.json();
+};
+
+export const rollbackAnalysis = async (id: number): Promise<UploadFile> => {
+  const res = await apiRequest('POST', `/api/uploads/${id}/rollback`);
+  return await res.json();
+};
+
+export const compareAnalyses = async (
+  targetId: number,
+  baseId: number,
+): Promise<AnalysisComparison> => {
+  const res = await apiRequest('GET', `/api/uploads/${targetId}/compare/${baseId}`);
+  return await res.json();
+};
+
+export const getCompanies = async (): Promise<Company[]> => {
+  const res = await apiRequest('GET', '/api/companies');
+  return await res.json();
+};
+
+export const getCompany = async (id: number): Promise<CompanyProfile> => {
+  const res = await apiRequest('GET', `/api/companies/${id}`);
+  return await res.json();
+};
+
+export const setUploadCompany = async (id: number, link: CompanyLinkRequest): Promise<UploadFile> => {
+  const res = await apiRequest('PUT', `/api/uploads/${id}/company`, link);
+  return await res.json();
+};
+
+export const setUploadVisibility = async (
+  id: number,
+  visibility: UploadVisibility,
+): Promise<UploadFile> => {
+  const res = await apiRequest('PUT', `/api/uploads/${id}/visibility`, { visibility });
+  return await res.json();
+};
+
+export const getUploadFileUrl = (id: number): string => `/api/uploads/${id}/file`;
+
+export const getPageText = async (id: number, pageNumber: number): Promise<PageText> => {
+  const res = await apiRequest('GET', `/api/uploads/${id}/pages/${pageNumber}`);
+  return await res.json();
+};
+
 export const deleteUpload = async (id: number): Promise<void> => {
   await apiRequest('DELETE', `/api/uploads/${id}`);
 };
@@ -1,11 +1,84 @@
 export interface UploadFile {
   id: number;
+  ownerId?: number | null;
   fileName: string;
   fileSize: number;
   status: "processing" | "completed" | "failed";
   uploadTime: string;
   filePath?: string;
   analysisData?: string;
+  currentAnalysisId?: number | null;
+  companyId?: number | null;
+  fiscalYear?: number | null;
+  companyLinkedBy?: "auto" | "manual" | null;
+  contentHash?: string | null;
+  errorClass?: AnalysisErrorClass | null; // set when the last analysis run failed, even if an earlier version is kept
+  visibility?: UploadVisibility;
+}
+
+// Private uploads are visible to their owner only; team uploads to every rep
+export type UploadVisibility = "private" | "team";
+
+// Why an analysis failed, as classified by the server's LLM client
+export type AnalysisErrorClass =
+  | "rate_limit"
+  | "quota"
+  | "safety_block"
+  | "invalid_output"
+  | "transient"
+  | "timeout"
+  | "unknown";
+
+// An earlier upload of the same file, returned when an upload is rejected as a duplicate
+export interface DuplicateUpload {
+  id: number;
+  fileName: string;
+  uploadTime: string;
+}
+
+export type DuplicateUploadAction = "reuse" | "analyze";
+
+export interface AnalysisRun {
+  id: number;
+  uploadId: number;
+  pipelineMode: string;
+  promptVersions: string; // JSON: { stage: prompt version }
+  processingStats: string | null;
+  usage: string | null; // JSON: token, latency and cost totals of the run's model calls
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+export interface Company {
+  id: number;
+  name: string;
+  normalizedName: string;
+  ticker: string | null;
+  industry: string | null;
+  createdAt: string;
+  uploadCount?: number; // only on the company list
+}
+
+export interface CompanyProfile extends Company {
+  uploads: (Omit<UploadFile, "analysisData"> & { analyses: AnalysisRun[] })[]; // latest fiscal year first
+}
+
+export interface CompanyLinkRequest {
+  companyId: number | null;
+  newCompanyName?: string;
+  fiscalYear?: number | null;
+}
+
+// The uploaded document an insight was extracted from
+export interface InsightSource {
+  uploadId: number;
+  fileName: string;
+}
+
+export interface PageText {
+  pageNumber: number;
+  pageCount: number;
+  text: string;
 }
 
 export interface UploadProgress {
@@ -14,6 +87,14 @@ export interface UploadProgress {
   isUploading: boolean;
 }
 
+export type QuoteStatus = "verified" | "approximate" | "unverifiable" | "not_found";
+
+export interface QuoteVerification {
+  status: QuoteStatus;
+  matchedPage: number | null;
+  similarity: number;
+}
+
 export interface HRInsight {
   dataPoint: string;
   hrRelevance: string;
@@ -22,9 +103,14 @@ export interface HRInsight {
   confidence?: number;
   pageReference?: string;
   strategicImplications?: string;
+  resolvedPage?: number | null; // null when pageReference doesn't match a real page
+  quoteVerification?: QuoteVerification; // absent when the document text couldn't be extracted
 }
 
 export interface BusinessOverview {
+  companyName?: string | null;
+  ticker?: string | null;
+  fiscalYear?: string | null;
   companyOverview: string;
   businessModel: string;
   revenueStreams: string[];
@@ -40,6 +126,95 @@ export interface BusinessOverview {
   };
 }
 
+export type AmountScale =
+  | "units"
+  | "thousands"
+  | "lakhs"
+  | "millions"
+  | "crores"
+  | "billions"
+  | "trillions";
+
+export interface NormalizedAmount {
+  value: number; // in base units; negative for losses
+  currency: string; // ISO 4217 code
+  scale: AmountScale;
+  originalText: string;
+}
+
+export interface NormalizedFinancials {
+  revenue: {
+    current: NormalizedAmount | null;
+    previous: NormalizedAmount | null;
+  };
+  profitLoss: {
+    amount: NormalizedAmount | null;
+  };
+  assets: {
+    total: NormalizedAmount | null;
+  };
+  personnelCosts?: { amount: NormalizedAmount | null };
+  operatingExpenses?: { amount: NormalizedAmount | null };
+  researchAndDevelopment?: { amount: NormalizedAmount | null };
+  cash?: { amount: NormalizedAmount | null };
+  debt?: { amount: NormalizedAmount | null };
+  segments?: {
+    items: { name: string; revenue: NormalizedAmount | null }[];
+  };
+  history?: {
+    years: NormalizedFinancialYear[]; // oldest first
+  };
+}
+
+export interface NormalizedFinancialYear {
+  fiscalYear: string;
+  year: number | null;
+  revenue: NormalizedAmount | null;
+  profit: NormalizedAmount | null;
+  employees: number | null;
+  personnelCosts: NormalizedAmount | null;
+}
+
+export interface FinancialYear {
+  fiscalYear: string;
+  revenue: string | null;
+  profit: string | null; // negative for a loss
+  employees: number | null;
+  personnelCosts: string | null;
+}
+
+export interface KpiInput {
+  name: string;
+  field: string;
+  value: number | null;
+  originalText: string | null;
+}
+
+export interface HRKpi {
+  id: "revenuePerEmployee" | "personnelCostRatio" | "headcountGrowth" | "profitPerEmployee";
+  label: string;
+  value: number | null;
+  unit: "currency" | "percentage";
+  currency: string | null;
+  formula: string;
+  inputs: KpiInput[];
+  note: string | null; // why the value couldn't be computed
+}
+
+export interface ValidationFlag {
+  rule: string;
+  severity: "info" | "warning" | "error";
+  message: string;
+  fields: string[];
+}
+
+export interface FinancialAmount {
+  amount: string | null;
+  currency: string;
+  confidence: "high" | "medium" | "low";
+  sourceText: string;
+}
+
 export interface FinancialMetrics {
   revenue: {
     current: string | null;
@@ -71,6 +246,25 @@ export interface FinancialMetrics {
     confidence: "high" | "medium" | "low";
     sourceText: string;
   };
+  // Added with financial prompt v2; missing on older analyses
+  personnelCosts?: FinancialAmount;
+  operatingExpenses?: FinancialAmount;
+  researchAndDevelopment?: FinancialAmount;
+  cash?: FinancialAmount;
+  debt?: FinancialAmount;
+  segments?: {
+    items: { name: string; revenue: string | null }[];
+    currency: string;
+    confidence: "high" | "medium" | "low";
+    sourceText: string;
+  };
+  // Added with financial prompt v3
+  history?: {
+    years: FinancialYear[];
+    currency: string;
+    confidence: "high" | "medium" | "low";
+    sourceText: string;
+  };
   validation: {
     revenueReasonable: boolean;
     profitMarginReasonable: boolean;
@@ -78,7 +272,10 @@ export interface FinancialMetrics {
     flaggedForReview: boolean;
     notes: string;
     extractionMethod: string;
+    flags?: ValidationFlag[]; // missing on analyses that predate rule-based validation
   };
+  normalized?: NormalizedFinancials; // missing on analyses that predate normalization
+  kpis?: HRKpi[]; // missing on analyses that predate derived KPIs
 }
 
 export interface AnalysisData {
@@ -89,4 +286,86 @@ export interface AnalysisData {
   operationalChallenges: HRInsight[];
   strategicPeopleInitiatives: HRInsight[];
   financialMetrics?: FinancialMetrics;
+  promptVersions?: Partial<Record<PipelineStage, string>>;
+  processingStats?: ProcessingStats;
+}
+
+export interface ProcessingStats {
+  stage0Duration: number;
+  stage1Duration: number;
+  stage2Duration: number;
+  totalDuration: number;
+  stage0Success: boolean;
+  stage1Success: boolean;
+  stage2Success: boolean;
+  executionMode?: "sequential" | "parallel";
+  partialSuccess?: boolean;
+  degradedStages?: PipelineStage[]; // missing on analyses stored before it was tracked
+  hrContextStages?: PipelineStage[];
+  cachedStages?: PipelineStage[];
+}
+
+export type InsightCategory =
+  | "businessContext"
+  | "workforceInsights"
+  | "operationalChallenges"
+  | "strategicPeopleInitiatives";
+
+export interface CategoryDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: { base: T; target: T; similarity: number }[];
+  unchanged: number;
+}
+
+export interface FinancialDelta {
+  metric: string;
+  label: string;
+  base: number | null;
+  target: number | null;
+  change: number | null;
+  percentChange: number | null;
+  currency: string | null; // null for headcount
+  currencyMismatch: boolean;
+}
+
+export interface AnalysisComparison {
+  base: Omit<UploadFile, "analysisData">; // the earlier report
+  target: Omit<UploadFile, "analysisData">;
+  diff: {
+    insights: Record<InsightCategory, CategoryDiff<HRInsight>>;
+    riskLanguage: CategoryDiff<string>;
+    financialDeltas: FinancialDelta[];
+    summary: { added: number; removed: number; changed: number };
+  };
+}
+
+export type PipelineStage = "business_overview" | "financial" | "hr";
+
+export type StageStatus = "pending" | "running" | "completed" | "failed" | "degraded";
+
+export interface ProgressEvent {
+  type:
+    | "status"
+    | "analysis_started"
+    | "stage_started"
+    | "stage_completed"
+    | "stage_failed"
+    | "stage_degraded"
+    | "analysis_completed"
+    | "analysis_failed";
+  status?: UploadFile["status"];
+  stage?: PipelineStage;
+  duration?: number;
+  message?: string;
+  attempt?: number;
+  errorClass?: AnalysisErrorClass;
+  timestamp?: string;
+}
+
+export interface StageProgress {
+  stage: PipelineStage;
+  status: StageStatus;
+  duration?: number;
+  message?: string;
 }
@@ -0,0 +1,9 @@
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
@@ -0,0 +1,14 @@
+import type { AnalysisErrorClass } from "@/types/upload";
+
+const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorClass, string> = {
+  rate_limit: "The AI service was too busy to finish the analysis. Please try again in a few minutes.",
+  quota: "The AI service's usage quota is used up. Analyses will work again once it resets.",
+  safety_block: "The AI service declined to analyze this document.",
+  invalid_output: "The AI service returned a response that couldn't be read, even after a retry.",
+  transient: "The AI service was temporarily unavailable. Please try again.",
+  timeout: "The analysis took too long and was stopped. Please try again.",
+  unknown: "The analysis failed unexpectedly.",
+};
+
+export const describeAnalysisError = (errorClass?: AnalysisErrorClass | null): string =>
+  ANALYSIS_ERROR_MESSAGES[errorClass ?? "unknown"] ?? ANALYSIS_ERROR_MESSAGES.unknown;
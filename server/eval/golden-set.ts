@@ -0,0 +1,43 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+export const GOLDEN_DIR = path.join(process.cwd(), "server", "eval", "golden");
+
+const goldenCaseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().default(""),
+  document: z.string().min(1), // relative to the repository root
+  expected: z.object({
+    revenue: z.number().nullable(),
+    profitLossType: z.enum(["profit", "loss", "breakeven"]),
+    profitLossAmount: z.number().nullable(),
+    employees: z.number().int().nullable(),
+    industryKeywords: z.array(z.string()).min(1), // any match counts
+    minInsights: z.number().int().nonnegative().default(0),
+  }),
+});
+
+export type GoldenCase = z.infer<typeof goldenCaseSchema>;
+export type ExpectedValues = GoldenCase["expected"];
+
+/**
+ * Loads every `<id>.json` case in the golden folder, sorted by id
+ */
+export function loadGoldenSet(goldenDir: string = GOLDEN_DIR): GoldenCase[] {
+  return readdirSync(goldenDir)
+    .filter((fileName) => fileName.endsWith(".json"))
+    .map((fileName) => {
+      const raw = JSON.parse(readFileSync(path.join(goldenDir, fileName), "utf-8"));
+      const result = goldenCaseSchema.safeParse(raw);
+      if (!result.success) {
+        throw new Error(`Invalid golden case ${fileName}: ${result.error.message}`);
+      }
+      return result.data;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export function resolveDocumentPath(goldenCase: GoldenCase): string {
+  return path.resolve(process.cwd(), goldenCase.document);
+}
@@ -0,0 +1,148 @@
+import type { PromptVersions } from "../prompts";
+import { CaseScore, EVAL_FIELDS, EvalField } from "./scoring";
+
+// Written next to the recorded responses so a report can say what produced them
+export interface RecordingMeta {
+  label: string;
+  model: string;
+  promptVersions: PromptVersions;
+  recordedAt: string;
+}
+
+export interface RunSummary {
+  meta: RecordingMeta;
+  cases: CaseScore[];
+  fieldAccuracy: number; // averaged over all cases and fields (0-1)
+  fieldAccuracyByField: Record<EvalField, number>;
+  averageInsights: number;
+  minInsightsMetRate: number;
+  verifiedRate: number;
+  notFoundRate: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function summarizeRun(meta: RecordingMeta, cases: CaseScore[]): RunSummary {
+  const totalInsights = cases.reduce((sum, score) => sum + score.totalInsights, 0);
+  const totalNotFound = cases.reduce((sum, score) => sum + score.quoteStatuses.not_found, 0);
+  const totalVerified = cases.reduce((sum, score) => sum + score.quoteStatuses.verified, 0);
+
+  return {
+    meta,
+    cases,
+    fieldAccuracy: average(cases.map((score) => score.fieldAccuracy)),
+    fieldAccuracyByField: Object.fromEntries(
+      EVAL_FIELDS.map((field) => [
+        field,
+        average(cases.map((score) => (score.fields.find((f) => f.field === field)?.correct ? 1 : 0))),
+      ]),
+    ) as Record<EvalField, number>,
+    averageInsights: average(cases.map((score) => score.totalInsights)),
+    minInsightsMetRate: average(cases.map((score) => (score.minInsightsMet ? 1 : 0))),
+    verifiedRate: totalInsights > 0 ? totalVerified / totalInsights : 0,
+    notFoundRate: totalInsights > 0 ? totalNotFound / totalInsights : 0,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function delta(baseline: number, candidate: number, format: (value: number) => string): string {
+  const difference = candidate - baseline;
+  if (Math.abs(difference) < 1e-9) return "–";
+  const sign = difference > 0 ? "+" : "-";
+  return `${sign}${format(Math.abs(difference))}`;
+}
+
+const describeRun = (meta: RecordingMeta) =>
+  `${meta.model}, prompts ${Object.entries(meta.promptVersions)
+    .map(([stage, version]) => `${stage} ${version}`)
+    .join(", ")}, recorded ${meta.recordedAt}`;
+
+export function formatRunSummary(summary: RunSummary): string {
+  const lines = [
+    `${summary.meta.label} (${describeRun(summary.meta)})`,
+    `  Field accuracy:     ${percent(summary.fieldAccuracy)}`,
+    ...EVAL_FIELDS.map(
+      (field) => `    ${field.padEnd(18)}${percent(summary.fieldAccuracyByField[field])}`,
+    ),
+    `  Avg insights:       ${summary.averageInsights.toFixed(1)}`,
+    `  Quotes verified:    ${percent(summary.verifiedRate)}`,
+    `  Quotes not found:   ${percent(summary.notFoundRate)}`,
+  ];
+  summary.cases
+    .filter((score) => score.error)
+    .forEach((score) => lines.push(`  FAILED ${score.caseId}: ${score.error}`));
+  return lines.join("\n");
+}
+
+/**
+ * Markdown report comparing a candidate run against a baseline, with the
+ * per-case field changes that explain any movement in the totals
+ */
+export function formatComparisonReport(baseline: RunSummary, candidate: RunSummary): string {
+  const row = (name: string, b: number, c: number, format: (value: number) => string) =>
+    `| ${name} | ${format(b)} | ${format(c)} | ${delta(b, c, format)} |`;
+
+  const lines = [
+    `# Extraction eval: ${baseline.meta.label} vs ${candidate.meta.label}`,
+    "",
+    `- **Baseline** ${baseline.meta.label}: ${describeRun(baseline.meta)}`,
+    `- **Candidate** ${candidate.meta.label}: ${describeRun(candidate.meta)}`,
+    "",
+    "## Summary",
+    "",
+    "| Metric | Baseline | Candidate | Change |",
+    "| --- | --- | --- | --- |",
+    row("Field accuracy", baseline.fieldAccuracy, candidate.fieldAccuracy, percent),
+    ...EVAL_FIELDS.map((field) =>
+      row(
+        `&nbsp;&nbsp;${field}`,
+        baseline.fieldAccuracyByField[field],
+        candidate.fieldAccuracyByField[field],
+        percent,
+      ),
+    ),
+    row("Avg insights per report", baseline.averageInsights, candidate.averageInsights, (v) => v.toFixed(1)),
+    row("Reports meeting insight minimum", baseline.minInsightsMetRate, candidate.minInsightsMetRate, percent),
+    row("Quotes verified", baseline.verifiedRate, candidate.verifiedRate, percent),
+    row("Quotes not found", baseline.notFoundRate, candidate.notFoundRate, percent),
+    "",
+    "## Field changes",
+    "",
+  ];
+
+  const changes: string[] = [];
+  candidate.cases.forEach((candidateCase) => {
+    const baselineCase = baseline.cases.find((score) => score.caseId === candidateCase.caseId);
+    candidateCase.fields.forEach((field) => {
+      const before = baselineCase?.fields.find((f) => f.field === field.field);
+      if (before && before.correct === field.correct) return;
+      const status = field.correct ? "fixed" : "regressed";
+      changes.push(
+        `| ${candidateCase.caseId} | ${field.field} | ${status} | ${field.expected ?? "–"} | ${before?.actual ?? "–"} | ${field.actual ?? "–"} |`,
+      );
+    });
+  });
+
+  if (changes.length === 0) {
+    lines.push("No field changed between the two runs.");
+  } else {
+    lines.push(
+      "| Report | Field | Change | Expected | Baseline | Candidate |",
+      "| --- | --- | --- | --- | --- | --- |",
+      ...changes,
+    );
+  }
+
+  const failures = [baseline, candidate].flatMap((summary) =>
+    summary.cases
+      .filter((score) => score.error)
+      .map((score) => `- ${summary.meta.label} / ${score.caseId}: ${score.error}`),
+  );
+  if (failures.length > 0) {
+    lines.push("", "## Failed runs", "", ...failures);
+  }
+
+  return lines.join("\n") + "\n";
+}
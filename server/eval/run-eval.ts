@@ -0,0 +1,145 @@
+/**
+ * Offline extraction-accuracy evaluation over the golden report set.
+ *
+ *   npm run eval -- record <label>                  call the live model and save its responses
+ *   npm run eval -- score <label>                   replay a recording and print its scores
+ *   npm run eval -- compare <baseline> <candidate>  replay two recordings and write a report
+ *
+ * Recordings live in server/eval/recordings/<label>/<caseId>/<stage>-<n>.json,
+ * one file per model call, and are replayed through MockProvider, so scoring
+ * never touches the network. The checked-in "baseline" label holds
+ * hand-written responses giving the correct answer for each golden case, so
+ * `score baseline` runs out of the box; record a live label with a
+ * GEMINI_API_KEY to measure a model or prompt against it.
+ */
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { analyzeDocumentPipeline } from "../services/analysis-pipeline";
+import {
+  GeminiProvider,
+  MockProvider,
+  RecordingProvider,
+  setLLMProvider,
+} from "../services/llm-provider";
+import { setStageCacheEnabled } from "../services/stage-cache";
+import { GoldenCase, loadGoldenSet, resolveDocumentPath } from "./golden-set";
+import {
+  formatComparisonReport,
+  formatRunSummary,
+  RecordingMeta,
+  RunSummary,
+  summarizeRun,
+} from "./report";
+import { CaseScore, scoreCase, scoreFailedCase } from "./scoring";
+
+const EVAL_DIR = path.join(process.cwd(), "server", "eval");
+const RECORDINGS_DIR = path.join(EVAL_DIR, "recordings");
+const REPORTS_DIR = path.join(EVAL_DIR, "reports");
+
+const recordingDir = (label: string, caseId?: string) =>
+  caseId ? path.join(RECORDINGS_DIR, label, caseId) : path.join(RECORDINGS_DIR, label);
+
+async function runCase(goldenCase: GoldenCase): Promise<CaseScore> {
+  try {
+    const result = await analyzeDocumentPipeline(resolveDocumentPath(goldenCase));
+    return scoreCase(goldenCase, result);
+  } catch (error) {
+    return scoreFailedCase(goldenCase, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function record(label: string): Promise<void> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("Recording needs GEMINI_API_KEY to call the live model");
+  }
+
+  const gemini = new GeminiProvider(apiKey);
+  const cases = loadGoldenSet();
+  const scores: CaseScore[] = [];
+  let promptVersions: RecordingMeta["promptVersions"] = {};
+
+  for (const goldenCase of cases) {
+    console.log(`Recording ${goldenCase.id}...`);
+    // Re-recording a label mustn't leave calls from an earlier run behind
+    rmSync(recordingDir(label, goldenCase.id), { recursive: true, force: true });
+    setLLMProvider(new RecordingProvider(gemini, recordingDir(label, goldenCase.id)));
+    try {
+      const result = await analyzeDocumentPipeline(resolveDocumentPath(goldenCase));
+      promptVersions = result.promptVersions;
+      scores.push(scoreCase(goldenCase, result));
+    } catch (error) {
+      scores.push(scoreFailedCase(goldenCase, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  const meta: RecordingMeta = {
+    label,
+    model: gemini.modelName,
+    promptVersions,
+    recordedAt: new Date().toISOString(),
+  };
+  mkdirSync(recordingDir(label), { recursive: true });
+  writeFileSync(path.join(recordingDir(label), "meta.json"), JSON.stringify(meta, null, 2) + "\n");
+
+  console.log(formatRunSummary(summarizeRun(meta, scores)));
+}
+
+async function replay(label: string): Promise<RunSummary> {
+  const metaPath = path.join(recordingDir(label), "meta.json");
+  if (!existsSync(metaPath)) {
+    throw new Error(`No recording "${label}" - create one with: npm run eval -- record ${label}`);
+  }
+  const meta: RecordingMeta = JSON.parse(readFileSync(metaPath, "utf-8"));
+
+  const scores: CaseScore[] = [];
+  for (const goldenCase of loadGoldenSet()) {
+    const caseDir = recordingDir(label, goldenCase.id);
+    if (!existsSync(caseDir)) {
+      scores.push(scoreFailedCase(goldenCase, `No recorded responses in ${caseDir}`));
+      continue;
+    }
+    setLLMProvider(new MockProvider(caseDir));
+    scores.push(await runCase(goldenCase));
+  }
+
+  return summarizeRun(meta, scores);
+}
+
+async function compare(baselineLabel: string, candidateLabel: string): Promise<void> {
+  const baseline = await replay(baselineLabel);
+  const candidate = await replay(candidateLabel);
+
+  mkdirSync(REPORTS_DIR, { recursive: true });
+  const reportPath = path.join(REPORTS_DIR, `${baselineLabel}_vs_${candidateLabel}.md`);
+  writeFileSync(reportPath, formatComparisonReport(baseline, candidate));
+
+  console.log(formatRunSummary(baseline));
+  console.log(formatRunSummary(candidate));
+  console.log(`Comparison report written to ${path.relative(process.cwd(), reportPath)}`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...labels] = process.argv.slice(2);
+  // Every run has to reach the provider: recordings would miss cached
+  // stages, and all replays share the "mock" model name
+  setStageCacheEnabled(false);
+
+  if (command === "record" && labels.length === 1) {
+    await record(labels[0]);
+  } else if (command === "score" && labels.length === 1) {
+    console.log(formatRunSummary(await replay(labels[0])));
+  } else if (command === "compare" && labels.length === 2) {
+    await compare(labels[0], labels[1]);
+  } else {
+    console.error(
+      "Usage: npm run eval -- record <label> | score <label> | compare <baseline> <candidate>",
+    );
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+import type { PipelineResult } from "../services/analysis-pipeline";
+import type { HRInsight } from "../services/hr-analyzer";
+import type { QuoteStatus } from "../services/quote-verifier";
+import type { ExpectedValues, GoldenCase } from "./golden-set";
+
+export type EvalField = "revenue" | "profitLossType" | "profitLossAmount" | "employees" | "industry";
+
+export const EVAL_FIELDS: EvalField[] = [
+  "revenue",
+  "profitLossType",
+  "profitLossAmount",
+  "employees",
+  "industry",
+];
+
+const INSIGHT_CATEGORIES = [
+  "businessContext",
+  "workforceInsights",
+  "operationalChallenges",
+  "strategicPeopleInitiatives",
+] as const;
+
+export type InsightCategory = (typeof INSIGHT_CATEGORIES)[number];
+
+// Reports round figures differently in the narrative and the statements
+const NUMERIC_TOLERANCE = 0.02;
+
+export interface FieldScore {
+  field: EvalField;
+  expected: string | number | null;
+  actual: string | number | null;
+  correct: boolean;
+}
+
+export interface CaseScore {
+  caseId: string;
+  error?: string; // set when the pipeline itself failed
+  fields: FieldScore[];
+  fieldAccuracy: number; // share of fields correct (0-1)
+  insightCounts: Record<InsightCategory, number>;
+  totalInsights: number;
+  minInsightsMet: boolean;
+  quoteStatuses: Record<QuoteStatus, number>;
+  verifiedRate: number; // share of insights whose quote was found verbatim (0-1)
+}
+
+function withinTolerance(expected: number | null, actual: number | null): boolean {
+  if (expected === null) return actual === null;
+  if (actual === null) return false;
+  if (expected === 0) return actual === 0;
+  return Math.abs(actual - expected) / Math.abs(expected) <= NUMERIC_TOLERANCE;
+}
+
+function expectedValues(expected: ExpectedValues): Record<EvalField, string | number | null> {
+  return {
+    revenue: expected.revenue,
+    profitLossType: expected.profitLossType,
+    profitLossAmount: expected.profitLossAmount,
+    employees: expected.employees,
+    industry: expected.industryKeywords.join(" / "),
+  };
+}
+
+function scoreFields(expected: ExpectedValues, result: PipelineResult): FieldScore[] {
+  const { financialMetrics, businessOverview, hrInsights } = result;
+  const revenue = financialMetrics.normalized.revenue.current?.value ?? null;
+  // Golden amounts may be written with or without the sign of a loss
+  const profitLossAmount = financialMetrics.normalized.profitLoss.amount?.value ?? null;
+  const employees = financialMetrics.employees.total;
+  const industry = [
+    businessOverview.industryClassification,
+    hrInsights.extractionQuality.industryIdentified,
+  ].join(" | ");
+
+  return [
+    {
+      field: "revenue",
+      expected: expected.revenue,
+      actual: revenue,
+      correct: withinTolerance(expected.revenue, revenue),
+    },
+    {
+      field: "profitLossType",
+      expected: expected.profitLossType,
+      actual: financialMetrics.profitLoss.type,
+      correct: financialMetrics.profitLoss.type === expected.profitLossType,
+    },
+    {
+      field: "profitLossAmount",
+      expected: expected.profitLossAmount,
+      actual: profitLossAmount,
+      correct: withinTolerance(
+        expected.profitLossAmount === null ? null : Math.abs(expected.profitLossAmount),
+        profitLossAmount === null ? null : Math.abs(profitLossAmount),
+      ),
+    },
+    {
+      field: "employees",
+      expected: expected.employees,
+      actual: employees,
+      correct: withinTolerance(expected.employees, employees),
+    },
+    {
+      field: "industry",
+      expected: expectedValues(expected).industry,
+      actual: industry,
+      correct: expected.industryKeywords.some((keyword) =>
+        industry.toLowerCase().includes(keyword.toLowerCase()),
+      ),
+    },
+  ];
+}
+
+export function scoreCase(goldenCase: GoldenCase, result: PipelineResult): CaseScore {
+  const fields = scoreFields(goldenCase.expected, result);
+
+  const insightCounts = Object.fromEntries(
+    INSIGHT_CATEGORIES.map((category) => [category, result.hrInsights[category].length]),
+  ) as Record<InsightCategory, number>;
+  const insights: HRInsight[] = INSIGHT_CATEGORIES.flatMap((category) => result.hrInsights[category]);
+
+  const quoteStatuses: Record<QuoteStatus, number> = { verified: 0, approximate: 0, unverifiable: 0, not_found: 0 };
+  insights.forEach((insight) => {
+    if (insight.quoteVerification) quoteStatuses[insight.quoteVerification.status]++;
+  });
+
+  return {
+    caseId: goldenCase.id,
+    fields,
+    fieldAccuracy: fields.filter((field) => field.correct).length / fields.length,
+    insightCounts,
+    totalInsights: insights.length,
+    minInsightsMet: insights.length >= goldenCase.expected.minInsights,
+    quoteStatuses,
+    verifiedRate: insights.length > 0 ? quoteStatuses.verified / insights.length : 0,
+  };
+}
+
+// A failed run scores zero on every field so it drags the averages down
+export function scoreFailedCase(goldenCase: GoldenCase, error: string): CaseScore {
+  return {
+    caseId: goldenCase.id,
+    error,
+    fields: EVAL_FIELDS.map((field) => ({
+      field,
+      expected: expectedValues(goldenCase.expected)[field],
+      actual: null,
+      correct: false,
+    })),
+    fieldAccuracy: 0,
+    insightCounts: Object.fromEntries(INSIGHT_CATEGORIES.map((category) => [category, 0])) as Record<
+      InsightCategory,
+      number
+    >,
+    totalInsights: 0,
+    minInsightsMet: false,
+    quoteStatuses: { verified: 0, approximate: 0, unverifiable: 0, not_found: 0 },
+    verifiedRate: 0,
+  };
+}
@@ -1,9 +1,10 @@
-import dotenv from "dotenv";
-dotenv.config();
+import "dotenv/config";
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { analysisQueue } from "./services/analysis-queue";
+import { getLLMProvider } from "./services/llm-provider";
 
 const app = express();
 app.use(express.json());
@@ -40,7 +41,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Resolve the model provider up front so a missing API key stops the
+  // server at boot instead of failing every analysis job
+  getLLMProvider();
   const server = await registerRoutes(app);
+  await analysisQueue.start();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,301 @@
+import type { PromptTemplate } from "./types";
+
+export const financialPromptV1: PromptTemplate = {
+  name: "financial",
+  version: "v1",
+  description: "Stage 1: revenue, profit/loss, headcount and assets in base units",
+  generationConfig: {
+    temperature: 0.1,
+    topP: 0.8,
+    maxOutputTokens: 2048,
+  },
+  template: `Extract key financial metrics from this document. Return valid JSON only.
+
+RULES:
+- All amounts in base units (2610000000, not "2.61B")  
+- Use null for missing data
+- Include exact quotes in sourceText
+- Currency should be 3-letter code (USD, CAD, etc.)
+
+REQUIRED FORMAT:
+{
+  "success": true,
+  "data": {
+    "revenue": {
+      "current": "2610000000",
+      "previous": null,
+      "growth": null,
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Revenue was $2.61 billion",
+      "extractionMethod": "direct_statement"
+    },
+    "profitLoss": {
+      "type": "profit",
+      "amount": "28000000",
+      "margin": null,
+      "confidence": "high",
+      "sourceText": "Net income of $28 million",
+      "validationFlags": []
+    },
+    "employees": {
+      "total": 5914,
+      "previousYear": null,
+      "growth": null,
+      "confidence": "high",
+      "sourceText": "5,914 employees as of year-end"
+    },
+    "assets": {
+      "total": "9437000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Total assets of $9.4 billion"
+    },
+    "validation": {
+      "revenueReasonable": true,
+      "profitMarginReasonable": true,
+      "crossCheckPassed": true,
+      "flaggedForReview": false,
+      "notes": "Successfully extracted core metrics",
+      "extractionMethod": "direct_statement"
+    }
+  }
+}
+
+Extract financial data now:`,
+};
+
+// v2 adds personnel costs, operating expenses, R&D, cash, debt and segment revenue
+export const financialPromptV2: PromptTemplate = {
+  name: "financial",
+  version: "v2",
+  description:
+    "Stage 1: v1 plus personnel costs, operating expenses, R&D, cash, debt and segment revenue",
+  generationConfig: {
+    temperature: 0.1,
+    topP: 0.8,
+    maxOutputTokens: 4096,
+  },
+  template: `Extract key financial metrics from this document. Return valid JSON only.
+
+RULES:
+- All amounts in base units (2610000000, not "2.61B")
+- Use null for missing data and "low" confidence with an empty sourceText
+- Include exact quotes in sourceText
+- Currency should be 3-letter code (USD, CAD, etc.)
+- personnelCosts: total employee compensation/benefits expense (salaries, wages, share-based compensation, pensions) - not headcount
+- operatingExpenses: total operating expenses as reported; do not add up line items yourself
+- researchAndDevelopment: R&D expense for the year
+- cash: cash and cash equivalents at year-end (exclude marketable securities unless reported together)
+- debt: total borrowings (short-term plus long-term debt, excluding lease liabilities)
+- segments: revenue of each reportable business or geographic segment, as listed in the segment note; empty items if the company reports a single segment
+
+REQUIRED FORMAT:
+{
+  "success": true,
+  "data": {
+    "revenue": {
+      "current": "2610000000",
+      "previous": null,
+      "growth": null,
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Revenue was $2.61 billion",
+      "extractionMethod": "direct_statement"
+    },
+    "profitLoss": {
+      "type": "profit",
+      "amount": "28000000",
+      "margin": null,
+      "confidence": "high",
+      "sourceText": "Net income of $28 million",
+      "validationFlags": []
+    },
+    "employees": {
+      "total": 5914,
+      "previousYear": null,
+      "growth": null,
+      "confidence": "high",
+      "sourceText": "5,914 employees as of year-end"
+    },
+    "assets": {
+      "total": "9437000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Total assets of $9.4 billion"
+    },
+    "personnelCosts": {
+      "amount": "1120000000",
+      "currency": "USD",
+      "confidence": "medium",
+      "sourceText": "Salaries, wages and benefits totaled $1.12 billion"
+    },
+    "operatingExpenses": {
+      "amount": "2480000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Total operating expenses were $2.48 billion"
+    },
+    "researchAndDevelopment": {
+      "amount": "310000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Research and development expense of $310 million"
+    },
+    "cash": {
+      "amount": "640000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Cash and cash equivalents of $640 million"
+    },
+    "debt": {
+      "amount": null,
+      "currency": "USD",
+      "confidence": "low",
+      "sourceText": ""
+    },
+    "segments": {
+      "items": [
+        { "name": "North America", "revenue": "1700000000" },
+        { "name": "International", "revenue": "910000000" }
+      ],
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "North America segment revenue of $1.70 billion; International $910 million"
+    },
+    "validation": {
+      "revenueReasonable": true,
+      "profitMarginReasonable": true,
+      "crossCheckPassed": true,
+      "flaggedForReview": false,
+      "notes": "Successfully extracted core metrics",
+      "extractionMethod": "direct_statement"
+    }
+  }
+}
+
+Extract financial data now:`,
+};
+
+// v3 adds the multi-year series from the selected financial data table
+export const financialPromptV3: PromptTemplate = {
+  name: "financial",
+  version: "v3",
+  description:
+    "Stage 1: v2 plus a per-fiscal-year series of revenue, profit, headcount and personnel costs",
+  generationConfig: {
+    temperature: 0.1,
+    topP: 0.8,
+    maxOutputTokens: 6144,
+  },
+  template: `Extract key financial metrics from this document. Return valid JSON only.
+
+RULES:
+- All amounts in base units (2610000000, not "2.61B")
+- Use null for missing data and "low" confidence with an empty sourceText
+- Include exact quotes in sourceText
+- Currency should be 3-letter code (USD, CAD, etc.)
+- personnelCosts: total employee compensation/benefits expense (salaries, wages, share-based compensation, pensions) - not headcount
+- operatingExpenses: total operating expenses as reported; do not add up line items yourself
+- researchAndDevelopment: R&D expense for the year
+- cash: cash and cash equivalents at year-end (exclude marketable securities unless reported together)
+- debt: total borrowings (short-term plus long-term debt, excluding lease liabilities)
+- segments: revenue of each reportable business or geographic segment, as listed in the segment note; empty items if the company reports a single segment
+- history: one entry per fiscal year the report covers (usually 3-5 years from the selected financial data, five-year summary or income statement comparatives), oldest first, including the current year; negative profit for a loss; null for any value a year doesn't report
+
+REQUIRED FORMAT:
+{
+  "success": true,
+  "data": {
+    "revenue": {
+      "current": "2610000000",
+      "previous": null,
+      "growth": null,
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Revenue was $2.61 billion",
+      "extractionMethod": "direct_statement"
+    },
+    "profitLoss": {
+      "type": "profit",
+      "amount": "28000000",
+      "margin": null,
+      "confidence": "high",
+      "sourceText": "Net income of $28 million",
+      "validationFlags": []
+    },
+    "employees": {
+      "total": 5914,
+      "previousYear": null,
+      "growth": null,
+      "confidence": "high",
+      "sourceText": "5,914 employees as of year-end"
+    },
+    "assets": {
+      "total": "9437000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Total assets of $9.4 billion"
+    },
+    "personnelCosts": {
+      "amount": "1120000000",
+      "currency": "USD",
+      "confidence": "medium",
+      "sourceText": "Salaries, wages and benefits totaled $1.12 billion"
+    },
+    "operatingExpenses": {
+      "amount": "2480000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Total operating expenses were $2.48 billion"
+    },
+    "researchAndDevelopment": {
+      "amount": "310000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Research and development expense of $310 million"
+    },
+    "cash": {
+      "amount": "640000000",
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Cash and cash equivalents of $640 million"
+    },
+    "debt": {
+      "amount": null,
+      "currency": "USD",
+      "confidence": "low",
+      "sourceText": ""
+    },
+    "segments": {
+      "items": [
+        { "name": "North America", "revenue": "1700000000" },
+        { "name": "International", "revenue": "910000000" }
+      ],
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "North America segment revenue of $1.70 billion; International $910 million"
+    },
+    "history": {
+      "years": [
+        { "fiscalYear": "2022", "revenue": "2230000000", "profit": "-12000000", "employees": 5120, "personnelCosts": "980000000" },
+        { "fiscalYear": "2023", "revenue": "2410000000", "profit": "15000000", "employees": 5530, "personnelCosts": "1050000000" },
+        { "fiscalYear": "2024", "revenue": "2610000000", "profit": "28000000", "employees": 5914, "personnelCosts": "1120000000" }
+      ],
+      "currency": "USD",
+      "confidence": "high",
+      "sourceText": "Five-year summary: revenue of $2.23 billion, $2.41 billion and $2.61 billion for 2022-2024"
+    },
+    "validation": {
+      "revenueReasonable": true,
+      "profitMarginReasonable": true,
+      "crossCheckPassed": true,
+      "flaggedForReview": false,
+      "notes": "Successfully extracted core metrics",
+      "extractionMethod": "direct_statement"
+    }
+  }
+}
+
+Extract financial data now:`,
+};
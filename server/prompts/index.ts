@@ -0,0 +1,51 @@
+import { businessOverviewPromptV1, businessOverviewPromptV2 } from "./business-overview";
+import { financialPromptV1, financialPromptV2, financialPromptV3 } from "./financial";
+import { hrPromptV1, hrPromptV2 } from "./hr";
+import { legacyPromptV1 } from "./legacy";
+import type { PromptName, PromptTemplate, PromptVersions } from "./types";
+
+export type { PromptName, PromptTemplate, PromptVersions } from "./types";
+
+/**
+ * Every prompt version ever shipped, oldest first. Never edit a registered
+ * template in place - add a new version so past analyses stay traceable.
+ */
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  businessOverviewPromptV1,
+  financialPromptV1,
+  hrPromptV1,
+  legacyPromptV1,
+  financialPromptV2,
+  financialPromptV3,
+  businessOverviewPromptV2,
+  hrPromptV2,
+];
+
+function versionsOf(name: PromptName): PromptTemplate[] {
+  return PROMPT_TEMPLATES.filter((prompt) => prompt.name === name);
+}
+
+// The newest version is active unless pinned with e.g. PROMPT_VERSION_HR=v1
+function activeVersion(name: PromptName): string {
+  const pinned = process.env[`PROMPT_VERSION_${name.toUpperCase()}`];
+  if (pinned) return pinned;
+
+  const versions = versionsOf(name);
+  return versions[versions.length - 1].version;
+}
+
+export function getPrompt(name: PromptName, version: string = activeVersion(name)): PromptTemplate {
+  const prompt = versionsOf(name).find((candidate) => candidate.version === version);
+  if (!prompt) {
+    throw new Error(`Unknown prompt version ${name}@${version}`);
+  }
+  return prompt;
+}
+
+export function getActivePromptVersions(names: PromptName[]): PromptVersions {
+  return Object.fromEntries(names.map((name) => [name, getPrompt(name).version]));
+}
+
+export function listPrompts(): PromptTemplate[] {
+  return [...PROMPT_TEMPLATES];
+}
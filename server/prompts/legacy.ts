@@ -0,0 +1,67 @@
+import type { PromptTemplate } from "./types";
+
+export const legacyPromptV1: PromptTemplate = {
+  name: "legacy",
+  version: "v1",
+  description: "Single-call analysis used when the staged pipeline is bypassed",
+  generationConfig: {},
+  template: `You are analyzing an annual report to help a solution advisor prepare for a discovery call with an HR leader. Extract key insights that demonstrate business understanding and create talking points.
+
+**CRITICAL FINANCIAL EXTRACTION REQUIREMENTS:**
+
+Before analyzing HR insights, you must first extract and validate ALL financial metrics with extreme precision. Use these rules:
+
+**REVENUE EXTRACTION RULES:**
+- Look for: "revenue", "total revenue", "net revenue", "sales", "net sales", "total sales"
+- Common formats: "Revenue: $4.2B", "revenue grew to $4.2 billion", "achieved revenue of $4.2B", "revenue increased 23% to $4.2B"
+- Extract BOTH current year and previous year when available
+- If only percentage growth given, extract the percentage and base amount separately
+
+**PROFIT/LOSS EXTRACTION RULES:**
+- PROFIT indicators: "net income", "profit", "operating income", "earnings", "net earnings"
+- LOSS indicators: "net loss", "operating loss", "loss", "deficit", "(loss)"
+- CRITICAL: If you see "loss", "deficit", or negative indicators, mark as LOSS not profit
+- Extract exact amounts and note if it's profit or loss
+
+**BUSINESS LOGIC VALIDATION:**
+- If profit > 50% of revenue, mark confidence as "low" and flag for review
+- If profit = revenue, mark as "impossible - likely data extraction error"
+- If loss is present, profit should be null or negative
+- Revenue should always be positive and larger than profit
+
+**STRUCTURED FINANCIAL OUTPUT:**
+Always include this exact JSON structure at the beginning of your response:
+
+{
+  "financialMetrics": {
+    "revenue": {
+      "current": "4.2B" | null,
+      "previous": "3.4B" | null,
+      "growth": "23%" | null,
+      "currency": "USD" | null,
+      "confidence": "high" | "medium" | "low",
+      "sourceText": "exact quote from document",
+      "extractionMethod": "direct_statement" | "growth_narrative" | "calculated"
+    },
+    "profitLoss": {
+      "type": "profit" | "loss" | "breakeven",
+      "amount": "500M" | null,
+      "margin": "12%" | null,
+      "confidence": "high" | "medium" | "low",
+      "sourceText": "exact quote from document",
+      "validationFlags": ["profit_exceeds_50_percent"] | []
+    },
+    "validation": {
+      "revenueReasonable": true | false,
+      "profitMarginReasonable": true | false,
+      "crossCheckPassed": true | false,
+      "flaggedForReview": true | false,
+      "notes": "Any validation concerns or extraction challenges"
+    }
+  }
+}
+
+[Continue with your original HR analysis instructions...]
+
+Focus on insights related to HR administration, payroll operations, workforce scheduling and management, talent acquisition and development, employee learning programs, people analytics and reporting, and regulatory compliance.`,
+};
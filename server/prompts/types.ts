@@ -0,0 +1,14 @@
+import type { GenerationConfig, LLMStage } from "../services/llm-provider";
+
+export type PromptName = LLMStage;
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string;
+  generationConfig: GenerationConfig;
+  template: string;
+}
+
+// Prompt version used for each stage of a run, e.g. { hr: "v2", financial: "v1" }
+export type PromptVersions = Partial<Record<PromptName, string>>;
@@ -1,11 +1,31 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
 import { storage } from "./storage";
-import { insertUploadSchema } from "@shared/schema";
-import { analyzeDocumentWithGemini } from "./services/gemini";
+import { setupAuth, requireAuth } from "./auth";
+import { insertUploadSchema, type Upload } from "@shared/schema";
+import { analysisQueue } from "./services/analysis-queue";
+import {
+  getProgressHistory,
+  subscribeToProgress,
+  clearProgressHistory,
+  type ProgressEvent,
+} from "./services/progress-events";
+import { deleteDocumentText, getDocumentText } from "./services/document-text";
+import { findOrCreateCompany } from "./services/company-linker";
+import { diffAnalyses } from "./services/analysis-diff";
+import { PIPELINE_STAGES } from "./services/analysis-pipeline";
+import { hashFile } from "./services/stage-cache";
+import { mimeTypeOf } from "./services/document-handle";
+import {
+  aggregateUsage,
+  addUsage,
+  emptyUsageCounts,
+  USAGE_DIMENSIONS,
+  type UsageDimension,
+} from "./services/llm-usage";
 
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -37,7 +57,8 @@ const upload = multer({
   },
   fileFilter: (req, file, cb) => {
     const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    if (allowedTypes.includes(file.mimetype)) {
+    // The extension decides how the stored file is sent to the model later
+    if (allowedTypes.includes(file.mimetype) && mimeTypeOf(file.originalname)) {
       cb(null, true);
     } else {
       cb(new Error('Only PDF, DOC, and DOCX files are allowed'));
@@ -45,63 +66,158 @@ const upload = multer({
   }
 });
 
+// Uploads without an owner predate accounts and stay editable by everyone
+const canModifyUpload = (upload: Upload, user: Express.User) =>
+  upload.ownerId === null || upload.ownerId === user.id;
+
+// Reps listed in USAGE_ADMINS (comma-separated usernames) see everyone's
+// model usage; everyone else sees only their own
+const usageAdmins = new Set(
+  (process.env.USAGE_ADMINS || "")
+    .split(",")
+    .map((username) => username.trim())
+    .filter(Boolean),
+);
+
+// Other reps can read an upload only once its owner shares it with the team
+const canViewUpload = (upload: Upload, user: Express.User) =>
+  canModifyUpload(upload, user) || upload.visibility === "team";
+
+const UPLOAD_VISIBILITIES = ["private", "team"];
+
+// An upload the user may not see is reported as missing, so ids don't reveal
+// other reps' private reports
+async function getVisibleUpload(id: number, user: Express.User): Promise<Upload | undefined> {
+  const upload = await storage.getUploadById(id);
+  return upload && canViewUpload(upload, user) ? upload : undefined;
+}
+
+const MAX_STREAMED_UPLOADS = 50;
+
+type StreamedEvent = ProgressEvent | { type: "status"; status: string };
+
+// Starts a Server-Sent Events response and returns its send function. A
+// comment line every 15s keeps proxies from closing an idle stream.
+function startEventStream(req: Request, res: Response): (event: object) => void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+  req.on("close", () => clearInterval(heartbeat));
+
+  return (event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+}
+
+// Sends the upload's current status, replays what has happened so far in this
+// run, then forwards new events until the returned function unsubscribes
+function streamUploadProgress(upload: Upload, send: (event: StreamedEvent) => void): () => void {
+  send({ type: "status", status: upload.status });
+  if (upload.status === "processing") {
+    getProgressHistory(upload.id).forEach(send);
+  }
+  return subscribeToProgress(upload.id, send);
+}
+
+// Gives a duplicate upload its own copy of the original's current analysis
+async function reuseAnalysis(source: Upload, target: Upload): Promise<Upload | undefined> {
+  const analysis = await storage.getAnalysisById(source.currentAnalysisId!);
+  if (!analysis) return undefined;
+
+  const copy = await storage.createAnalysis({
+    uploadId: target.id,
+    pipelineMode: "reused",
+    promptVersions: analysis.promptVersions,
+    processingStats: analysis.processingStats,
+    result: analysis.result,
+  });
+  await storage.setCurrentAnalysis(target.id, copy);
+
+  if (source.companyId) {
+    await storage.setUploadCompany(target.id, {
+      companyId: source.companyId,
+      fiscalYear: source.fiscalYear,
+      companyLinkedBy: source.companyLinkedBy,
+    });
+  }
+  return await storage.getUploadById(target.id);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all uploads
+  setupAuth(app);
+
+  // All upload and company routes require a signed-in user
+  app.use("/api/uploads", requireAuth);
+  app.use("/api/companies", requireAuth);
+  app.use("/api/usage", requireAuth);
+
+  // Get uploads - the caller's own by default, with ?scope=all also the ones
+  // other reps shared with the team
   app.get("/api/uploads", async (req, res) => {
     try {
-      const uploads = await storage.getUploads();
-      res.json(uploads);
+      const ownerId = req.query.scope === "all" ? undefined : req.user!.id;
+      const uploads = await storage.getUploads(ownerId);
+      res.json(uploads.filter((upload) => canViewUpload(upload, req.user!)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch uploads" });
     }
   });
 
-  // Upload file
+  // Upload file. A report that was already analyzed is rejected with 409
+  // unless the form says what to do with it: onDuplicate=reuse copies the
+  // existing analysis, onDuplicate=analyze runs the pipeline (which reuses
+  // cached stage results)
   app.post("/api/uploads", upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
+      const contentHash = await hashFile(req.file.path);
+      // Another rep's private copy isn't offered; the stage cache still
+      // saves the model calls
+      const match = await storage.getAnalyzedUploadByContentHash(contentHash);
+      const duplicate = match && canViewUpload(match, req.user!) ? match : undefined;
+      const onDuplicate = req.body.onDuplicate;
+
+      if (duplicate && onDuplicate !== "reuse" && onDuplicate !== "analyze") {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(409).json({
+          message: "This report has already been analyzed",
+          duplicate: {
+            id: duplicate.id,
+            fileName: duplicate.fileName,
+            uploadTime: duplicate.uploadTime,
+          },
+        });
+      }
+
       const uploadData = {
+        ownerId: req.user!.id,
         fileName: req.file.originalname,
         fileSize: req.file.size,
         status: "processing",
         filePath: req.file.path,
         analysisData: null,
+        contentHash,
       };
 
       const validatedData = insertUploadSchema.parse(uploadData);
       const newUpload = await storage.createUpload(validatedData);
 
-      // Process document with GEMINI
-      setTimeout(async () => {
-        try {
-          console.log(`Processing upload ${newUpload.id}...`);
-          
-          const { analyzeDocumentPipeline } = await import('./services/analysis-pipeline');
-          const { transformPipelineResultToAnalysisData, validateAnalysisData } = await import('./services/data-transformer');
-          
-          const pipelineResult = await analyzeDocumentPipeline(req.file!.path);
-          const analysisResult = transformPipelineResultToAnalysisData(pipelineResult);
-          
-          // Validate the transformed data
-          if (!validateAnalysisData(analysisResult)) {
-            console.warn(`Upload ${newUpload.id}: Analysis data validation failed, using fallback`);
-          }
-
-          const updatedUpload = await storage.updateUploadStatus(
-            newUpload.id, 
-            "completed", 
-            JSON.stringify(analysisResult)
-          );
-          
-          console.log(`Upload ${newUpload.id} analysis completed:`, updatedUpload);
-        } catch (error) {
-          console.error(`Error processing upload ${newUpload.id}:`, error);
-          await storage.updateUploadStatus(newUpload.id, "failed");
+      if (duplicate && onDuplicate === "reuse") {
+        const reused = await reuseAnalysis(duplicate, newUpload);
+        if (reused) {
+          return res.status(201).json(reused);
         }
-      }, 2000);
+      }
+
+      // Queue the document for analysis
+      await analysisQueue.enqueue(newUpload.id, "analyze");
 
       res.status(201).json(newUpload);
     } catch (error) {
@@ -110,11 +226,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One progress stream for several uploads (?ids=1,2,3), so a list of
+  // processing uploads holds a single connection rather than one per row.
+  // Every event carries its uploadId; uploads the caller can't see are left out
+  app.get("/api/uploads/events", async (req, res) => {
+    try {
+      const ids = Array.from(
+        new Set(String(req.query.ids || "").split(",").map((id) => parseInt(id))),
+      ).filter(Number.isInteger);
+      if (ids.length === 0 || ids.length > MAX_STREAMED_UPLOADS) {
+        return res.status(400).json({
+          message: `ids must list between 1 and ${MAX_STREAMED_UPLOADS} upload ids`,
+        });
+      }
+
+      const uploads = await Promise.all(ids.map((id) => getVisibleUpload(id, req.user!)));
+      const send = startEventStream(req, res);
+      const unsubscribes = uploads
+        .filter((upload): upload is Upload => upload !== undefined)
+        .map((upload) => streamUploadProgress(upload, (event) => send({ ...event, uploadId: upload.id })));
+      req.on("close", () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+    } catch (error) {
+      console.error("Error opening progress stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to open progress stream" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Get specific upload
   app.get("/api/uploads/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const upload = await storage.getUploadById(id);
+      const upload = await getVisibleUpload(id, req.user!);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
@@ -130,43 +276,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/uploads/:id/reanalyze", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const upload = await storage.getUploadById(id);
+      const upload = await getVisibleUpload(id, req.user!);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
       }
 
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
       if (!upload.filePath) {
         return res.status(400).json({ message: "File path not available for reanalysis" });
       }
 
+      if (upload.status === "processing") {
+        return res.status(409).json({ message: "Upload is already being analyzed" });
+      }
+
       // Update status to processing
       await storage.updateUploadStatus(id, 'processing');
       
-      // Start reanalysis in background
-      setTimeout(async () => {
-        try {
-          console.log(`Reprocessing upload ${id}...`);
-          const { analyzeDocumentPipeline } = await import('./services/analysis-pipeline');
-          const { transformPipelineResultToAnalysisData, validateAnalysisData } = await import('./services/data-transformer');
-          
-          const pipelineResult = await analyzeDocumentPipeline(upload.filePath!);
-          const analysisResult = transformPipelineResultToAnalysisData(pipelineResult);
-          
-          // Validate the transformed data
-          if (!validateAnalysisData(analysisResult)) {
-            console.warn(`Reanalysis ${id}: Analysis data validation failed, using fallback`);
-          }
-          
-          const analysisData = JSON.stringify(analysisResult);
-          
-          await storage.updateUploadStatus(id, 'completed', analysisData);
-          console.log(`Reanalysis completed for upload ${id}`);
-        } catch (error) {
-          console.error(`Error reprocessing upload ${id}:`, error);
-          await storage.updateUploadStatus(id, 'failed');
-        }
-      }, 1000);
+      // Queue reanalysis
+      await analysisQueue.enqueue(id, "reanalyze");
 
       // Return updated upload immediately
       const updatedUpload = await storage.getUploadById(id);
@@ -177,16 +309,338 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Regenerate a single stage of the current analysis
+  app.post("/api/uploads/:id/stages/:stage/rerun", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const stage = PIPELINE_STAGES.find((candidate) => candidate === req.params.stage);
+      if (!stage) {
+        return res.status(400).json({
+          message: `Unknown stage; expected one of ${PIPELINE_STAGES.join(", ")}`,
+        });
+      }
+
+      const upload = await getVisibleUpload(id, req.user!);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
+      if (!upload.filePath) {
+        return res.status(400).json({ message: "File path not available for reanalysis" });
+      }
+
+      if (!upload.currentAnalysisId) {
+        return res.status(400).json({ message: "Upload has no analysis to update yet" });
+      }
+
+      if (upload.status === "processing") {
+        return res.status(409).json({ message: "Upload is already being analyzed" });
+      }
+
+      await storage.updateUploadStatus(id, 'processing');
+      await analysisQueue.enqueue(id, `rerun:${stage}`);
+
+      const updatedUpload = await storage.getUploadById(id);
+      res.json(updatedUpload);
+    } catch (error) {
+      console.error("Error triggering stage rerun:", error);
+      res.status(500).json({ message: "Failed to trigger stage rerun" });
+    }
+  });
+
+  // Stream analysis progress as Server-Sent Events
+  app.get("/api/uploads/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const send = startEventStream(req, res);
+      const unsubscribe = streamUploadProgress(upload, send);
+      req.on("close", unsubscribe);
+    } catch (error) {
+      console.error("Error opening progress stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to open progress stream" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // List analysis runs for an upload, newest first
+  app.get("/api/uploads/:id/analyses", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const analyses = await storage.getAnalysesByUpload(id);
+      res.json(
+        analyses.map(({ result, ...run }) => ({
+          ...run,
+          isCurrent: run.id === upload.currentAnalysisId,
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch analysis history" });
+    }
+  });
+
+  // Compare an upload's current analysis against an earlier report's
+  app.get("/api/uploads/:id/compare/:baseId", async (req, res) => {
+    try {
+      const target = await getVisibleUpload(parseInt(req.params.id), req.user!);
+      const base = await getVisibleUpload(parseInt(req.params.baseId), req.user!);
+
+      if (!target || !base) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!target.analysisData || !base.analysisData) {
+        return res.status(400).json({ message: "Both reports need a completed analysis to compare" });
+      }
+
+      const strip = ({ analysisData, ...upload }: Upload) => upload;
+      res.json({
+        base: strip(base),
+        target: strip(target),
+        diff: diffAnalyses(JSON.parse(base.analysisData), JSON.parse(target.analysisData)),
+      });
+    } catch (error) {
+      console.error("Error comparing analyses:", error);
+      res.status(500).json({ message: "Failed to compare analyses" });
+    }
+  });
+
+  // Pin an analysis run as the current result
+  app.post("/api/uploads/:id/analyses/:analysisId/pin", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
+      const analysis = await storage.getAnalysisById(parseInt(req.params.analysisId));
+      if (!analysis || analysis.uploadId !== id) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      const updatedUpload = await storage.setCurrentAnalysis(id, analysis);
+      res.json(updatedUpload);
+    } catch (error) {
+      console.error("Error pinning analysis:", error);
+      res.status(500).json({ message: "Failed to pin analysis" });
+    }
+  });
+
+  // Roll back to the run before the current one
+  app.post("/api/uploads/:id/rollback", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
+      const analyses = await storage.getAnalysesByUpload(id);
+      const currentIndex = analyses.findIndex(
+        (analysis) => analysis.id === upload.currentAnalysisId,
+      );
+      const previous = currentIndex === -1 ? undefined : analyses[currentIndex + 1];
+
+      if (!previous) {
+        return res.status(400).json({ message: "No earlier analysis to roll back to" });
+      }
+
+      const updatedUpload = await storage.setCurrentAnalysis(id, previous);
+      res.json(updatedUpload);
+    } catch (error) {
+      console.error("Error rolling back analysis:", error);
+      res.status(500).json({ message: "Failed to roll back analysis" });
+    }
+  });
+
+  // Manually link an upload to a company (or unlink it with companyId null).
+  // Manual links are never overwritten by automatic linking on re-analysis.
+  app.put("/api/uploads/:id/company", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
+      const { companyId, newCompanyName, fiscalYear } = req.body ?? {};
+      if (fiscalYear !== undefined && fiscalYear !== null && !Number.isInteger(fiscalYear)) {
+        return res.status(400).json({ message: "fiscalYear must be a whole year" });
+      }
+
+      let targetCompanyId: number | null = null;
+      if (typeof newCompanyName === "string" && newCompanyName.trim()) {
+        const company = await findOrCreateCompany({
+          name: newCompanyName.trim(),
+          ticker: null,
+          industry: null,
+        });
+        targetCompanyId = company.id;
+      } else if (companyId !== null && companyId !== undefined) {
+        const company = await storage.getCompanyById(Number(companyId));
+        if (!company) {
+          return res.status(404).json({ message: "Company not found" });
+        }
+        targetCompanyId = company.id;
+      }
+
+      const updatedUpload = await storage.setUploadCompany(id, {
+        companyId: targetCompanyId,
+        fiscalYear: fiscalYear === undefined ? upload.fiscalYear : fiscalYear,
+        companyLinkedBy: "manual",
+      });
+      res.json(updatedUpload);
+    } catch (error) {
+      console.error("Error linking upload to company:", error);
+      res.status(500).json({ message: "Failed to link upload to company" });
+    }
+  });
+
+  // Share an upload with the team, or make it private again
+  app.put("/api/uploads/:id/visibility", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
+      const { visibility } = req.body ?? {};
+      if (!UPLOAD_VISIBILITIES.includes(visibility)) {
+        return res.status(400).json({
+          message: `visibility must be one of ${UPLOAD_VISIBILITIES.join(", ")}`,
+        });
+      }
+
+      const updatedUpload = await storage.setUploadVisibility(id, visibility);
+      res.json(updatedUpload);
+    } catch (error) {
+      console.error("Error changing upload visibility:", error);
+      res.status(500).json({ message: "Failed to change upload visibility" });
+    }
+  });
+
+  // Get analysis jobs for an upload
+  app.get("/api/uploads/:id/jobs", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await getVisibleUpload(id, req.user!))) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const jobs = await storage.getJobsByUpload(id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  // Stream the stored document (supports range requests for the page viewer)
+  app.get("/api/uploads/:id/file", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload || !upload.filePath) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      res.sendFile(
+        path.resolve(upload.filePath),
+        {
+          headers: {
+            "Content-Type": mimeTypeOf(upload.fileName) ?? "application/octet-stream",
+            "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(upload.fileName)}`,
+          },
+        },
+        (error) => {
+          if (error && !res.headersSent) {
+            res.status(404).json({ message: "File not found" });
+          }
+        },
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stream file" });
+    }
+  });
+
+  // Get the extracted text of a single page
+  app.get("/api/uploads/:id/pages/:pageNumber", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pageNumber = parseInt(req.params.pageNumber);
+      const upload = await getVisibleUpload(id, req.user!);
+
+      if (!upload || !upload.filePath) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const documentText = await getDocumentText(upload.filePath);
+      const page = documentText.pages.find((p) => p.pageNumber === pageNumber);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      res.json({ pageNumber, pageCount: documentText.pageCount, text: page.text });
+    } catch (error) {
+      console.error("Error reading page text:", error);
+      res.status(500).json({ message: "Failed to read page text" });
+    }
+  });
+
   // Delete upload
   app.delete("/api/uploads/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const upload = await storage.getUploadById(id);
+      const upload = await getVisibleUpload(id, req.user!);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
       }
 
+      if (!canModifyUpload(upload, req.user!)) {
+        return res.status(403).json({ message: "You can only modify your own uploads" });
+      }
+
       // Delete file from disk
       if (upload.filePath) {
         try {
@@ -194,9 +648,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } catch (error) {
           console.warn("Failed to delete file from disk:", error);
         }
+        await deleteDocumentText(upload.filePath);
       }
 
       const deleted = await storage.deleteUpload(id);
+      clearProgressHistory(id);
       if (deleted) {
         res.json({ message: "Upload deleted successfully" });
       } else {
@@ -207,6 +663,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List companies with how many uploads are linked to each
+  app.get("/api/companies", async (req, res) => {
+    try {
+      const companies = await storage.getCompanies();
+      const withCounts = await Promise.all(
+        companies.map(async (company) => ({
+          ...company,
+          uploadCount: (await storage.getUploadsByCompany(company.id)).filter((upload) =>
+            canViewUpload(upload, req.user!),
+          ).length,
+        })),
+      );
+      // Companies only known from uploads the caller can't see stay hidden
+      res.json(withCounts.filter((company) => company.uploadCount > 0));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch companies" });
+    }
+  });
+
+  // Company profile: its uploads, latest fiscal year first, each with its analysis runs
+  app.get("/api/companies/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const company = await storage.getCompanyById(id);
+
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      const companyUploads = (await storage.getUploadsByCompany(id)).filter((upload) =>
+        canViewUpload(upload, req.user!),
+      );
+      if (companyUploads.length === 0) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      const uploads = await Promise.all(
+        companyUploads.map(async ({ analysisData, ...upload }) => {
+          const analyses = await storage.getAnalysesByUpload(upload.id);
+          return {
+            ...upload,
+            analyses: analyses.map(({ result, ...run }) => ({
+              ...run,
+              isCurrent: run.id === upload.currentAnalysisId,
+            })),
+          };
+        }),
+      );
+
+      res.json({ ...company, uploads });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch company" });
+    }
+  });
+
+  // Model usage and estimated cost, summed per ?groupBy= dimensions (any of
+  // day, user, stage, upload; default day,user,stage) between ?from= and the
+  // exclusive ?to=. Only usage admins get other reps' calls
+  app.get("/api/usage", async (req, res) => {
+    try {
+      const groupBy = String(req.query.groupBy || "day,user,stage").split(",");
+      const unknown = groupBy.filter((dimension) => !USAGE_DIMENSIONS.includes(dimension as UsageDimension));
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          message: `Unknown groupBy dimension: ${unknown.join(", ")}. Use ${USAGE_DIMENSIONS.join(", ")}`,
+        });
+      }
+
+      const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+      const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "from and to must be dates, e.g. 2024-06-01" });
+      }
+
+      const userId = usageAdmins.has(req.user!.username) ? undefined : req.user!.id;
+      const calls = await storage.getLLMCalls({ from, to }, userId);
+      const groups = aggregateUsage(calls, groupBy as UsageDimension[]);
+
+      // Usernames make the per-user rows readable
+      const userIds = Array.from(new Set(groups.map((group) => group.userId).filter((id): id is number => id != null)));
+      const users = await Promise.all(userIds.map((id) => storage.getUser(id)));
+      const usernames = new Map(users.flatMap((user) => (user ? [[user.id, user.username] as const] : [])));
+
+      res.json({
+        from: from ?? null,
+        to: to ?? null,
+        groupBy,
+        totals: calls.reduce(addUsage, emptyUsageCounts()),
+        groups: groups.map((group) =>
+          group.userId === undefined
+            ? group
+            : { ...group, username: group.userId === null ? null : usernames.get(group.userId) ?? null },
+        ),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
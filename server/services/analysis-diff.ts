@@ -0,0 +1,263 @@
+import type { AnalysisData } from "./data-transformer";
+import type { FinancialMetrics } from "./financial-extractor";
+import { normalizeAmount, type NormalizedAmount } from "./financial-normalizer";
+import type { HRInsight } from "./hr-analyzer";
+
+// Compares two analyses of the same company (usually consecutive annual
+// reports) and reports what was added, dropped or changed
+
+export const INSIGHT_CATEGORIES = [
+  "businessContext",
+  "workforceInsights",
+  "operationalChallenges",
+  "strategicPeopleInitiatives",
+] as const;
+
+export type InsightCategory = (typeof INSIGHT_CATEGORIES)[number];
+
+// Share of topic keywords two insights need in common to be treated as the
+// same topic in both years
+const TOPIC_MATCH_THRESHOLD = 0.2;
+
+const STOP_WORDS = new Set([
+  "about", "across", "after", "also", "been", "being", "both", "company", "could", "during",
+  "each", "from", "have", "into", "more", "most", "over", "same", "some", "such", "than",
+  "that", "their", "them", "there", "these", "they", "this", "those", "through", "under",
+  "were", "what", "when", "where", "which", "while", "will", "with", "would", "year", "years",
+]);
+
+export interface InsightChange<T> {
+  base: T;
+  target: T;
+  similarity: number; // topic keyword overlap (0-1)
+}
+
+export interface CategoryDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: InsightChange<T>[];
+  unchanged: number;
+}
+
+export interface FinancialDelta {
+  metric: string;
+  label: string;
+  base: number | null;
+  target: number | null;
+  change: number | null;
+  percentChange: number | null; // null when either side is missing or the base is zero
+  currency: string | null; // null for headcount
+  currencyMismatch: boolean;
+}
+
+export interface AnalysisDiff {
+  insights: Record<InsightCategory, CategoryDiff<HRInsight>>;
+  riskLanguage: CategoryDiff<string>; // business overview operational challenges
+  financialDeltas: FinancialDelta[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+function topicKeywords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 3 && !STOP_WORDS.has(word))
+      // Crude plural folding so "initiative" and "initiatives" line up
+      .map((word) => word.replace(/(?<!s)s$/, "")),
+  );
+}
+
+function keywordOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  return shared / Math.min(a.size, b.size);
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\W+/g, " ").trim();
+
+/**
+ * Pairs up items about the same topic, best matches first, so each item is
+ * used at most once. Unpaired base items were dropped; unpaired target items
+ * are new.
+ */
+function alignByTopic<T>(
+  baseItems: T[],
+  targetItems: T[],
+  topicText: (item: T) => string,
+  compareText: (item: T) => string,
+): CategoryDiff<T> {
+  const baseTopics = baseItems.map((item) => topicKeywords(topicText(item)));
+  const targetTopics = targetItems.map((item) => topicKeywords(topicText(item)));
+
+  const candidates: { baseIndex: number; targetIndex: number; similarity: number }[] = [];
+  baseTopics.forEach((baseTopic, baseIndex) => {
+    targetTopics.forEach((targetTopic, targetIndex) => {
+      const similarity = keywordOverlap(baseTopic, targetTopic);
+      if (similarity >= TOPIC_MATCH_THRESHOLD) {
+        candidates.push({ baseIndex, targetIndex, similarity });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const matchedBase = new Set<number>();
+  const matchedTarget = new Set<number>();
+  const diff: CategoryDiff<T> = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const { baseIndex, targetIndex, similarity } of candidates) {
+    if (matchedBase.has(baseIndex) || matchedTarget.has(targetIndex)) continue;
+    matchedBase.add(baseIndex);
+    matchedTarget.add(targetIndex);
+
+    const base = baseItems[baseIndex];
+    const target = targetItems[targetIndex];
+    if (normalizeText(compareText(base)) === normalizeText(compareText(target))) {
+      diff.unchanged++;
+    } else {
+      diff.changed.push({ base, target, similarity: Math.round(similarity * 100) / 100 });
+    }
+  }
+
+  diff.removed = baseItems.filter((_, index) => !matchedBase.has(index));
+  diff.added = targetItems.filter((_, index) => !matchedTarget.has(index));
+  return diff;
+}
+
+const insightTopic = (insight: HRInsight) =>
+  `${insight.dataPoint} ${insight.hrRelevance} ${insight.strategicImplications ?? ""}`;
+
+type AmountMetric =
+  | "revenue"
+  | "profitLoss"
+  | "assets"
+  | "personnelCosts"
+  | "operatingExpenses"
+  | "researchAndDevelopment"
+  | "cash"
+  | "debt";
+
+const AMOUNT_METRICS: { metric: AmountMetric; label: string }[] = [
+  { metric: "revenue", label: "Revenue" },
+  { metric: "profitLoss", label: "Net profit/loss" },
+  { metric: "assets", label: "Total assets" },
+  { metric: "personnelCosts", label: "Personnel costs" },
+  { metric: "operatingExpenses", label: "Operating expenses" },
+  { metric: "researchAndDevelopment", label: "R&D" },
+  { metric: "cash", label: "Cash" },
+  { metric: "debt", label: "Debt" },
+];
+
+// Prefers the server-normalized amount; analyses from before normalization
+// only have the raw strings
+function readAmount(metrics: FinancialMetrics | undefined, metric: AmountMetric): NormalizedAmount | null {
+  if (!metrics) return null;
+  const normalized = metrics.normalized;
+
+  switch (metric) {
+    case "revenue":
+      return normalized?.revenue.current ?? normalizeAmount(metrics.revenue?.current, metrics.revenue?.currency);
+    case "profitLoss": {
+      if (normalized) return normalized.profitLoss.amount;
+      const amount = normalizeAmount(metrics.profitLoss?.amount, metrics.revenue?.currency);
+      return amount && metrics.profitLoss.type === "loss" && amount.value > 0
+        ? { ...amount, value: -amount.value }
+        : amount;
+    }
+    case "assets":
+      return normalized?.assets.total ?? normalizeAmount(metrics.assets?.total, metrics.assets?.currency);
+    default:
+      return (
+        normalized?.[metric]?.amount ?? normalizeAmount(metrics[metric]?.amount, metrics[metric]?.currency)
+      );
+  }
+}
+
+function delta(
+  metric: string,
+  label: string,
+  base: number | null,
+  target: number | null,
+  currency: string | null,
+  currencyMismatch = false,
+): FinancialDelta {
+  const comparable = base !== null && target !== null && !currencyMismatch;
+  return {
+    metric,
+    label,
+    base,
+    target,
+    change: comparable ? target - base : null,
+    percentChange:
+      comparable && base !== 0 ? Math.round(((target - base) / Math.abs(base)) * 1000) / 10 : null,
+    currency,
+    currencyMismatch,
+  };
+}
+
+function diffFinancials(
+  base: FinancialMetrics | undefined,
+  target: FinancialMetrics | undefined,
+): FinancialDelta[] {
+  const deltas = AMOUNT_METRICS.map(({ metric, label }) => {
+    const baseAmount = readAmount(base, metric);
+    const targetAmount = readAmount(target, metric);
+    return delta(
+      metric,
+      label,
+      baseAmount?.value ?? null,
+      targetAmount?.value ?? null,
+      targetAmount?.currency ?? baseAmount?.currency ?? null,
+      Boolean(baseAmount && targetAmount && baseAmount.currency !== targetAmount.currency),
+    );
+  });
+
+  deltas.push(
+    delta("employees", "Employees", base?.employees?.total ?? null, target?.employees?.total ?? null, null),
+  );
+
+  // Metrics neither report mentions only add noise
+  return deltas.filter((entry) => entry.base !== null || entry.target !== null);
+}
+
+/**
+ * Diffs two analyses. `base` is the earlier report and `target` the later
+ * one, so "added" means new in the later report.
+ */
+export function diffAnalyses(base: AnalysisData, target: AnalysisData): AnalysisDiff {
+  const insights = Object.fromEntries(
+    INSIGHT_CATEGORIES.map((category) => [
+      category,
+      alignByTopic<HRInsight>(
+        base[category] ?? [],
+        target[category] ?? [],
+        insightTopic,
+        (insight) => insight.dataPoint,
+      ),
+    ]),
+  ) as Record<InsightCategory, CategoryDiff<HRInsight>>;
+
+  const riskLanguage = alignByTopic<string>(
+    base.businessOverview?.operationalChallenges ?? [],
+    target.businessOverview?.operationalChallenges ?? [],
+    (challenge) => challenge,
+    (challenge) => challenge,
+  );
+
+  const categoryDiffs = [...Object.values(insights), riskLanguage];
+  return {
+    insights,
+    riskLanguage,
+    financialDeltas: diffFinancials(base.financialMetrics, target.financialMetrics),
+    summary: {
+      added: categoryDiffs.reduce((total, diff) => total + diff.added.length, 0),
+      removed: categoryDiffs.reduce((total, diff) => total + diff.removed.length, 0),
+      changed: categoryDiffs.reduce((total, diff) => total + diff.changed.length, 0),
+    },
+  };
+}
@@ -1,29 +1,56 @@
 import {
   extractFinancialMetrics,
   FinancialMetrics,
+  unreportedAmount,
+  withDerivedFigures,
 } from "./financial-extractor";
-import { generateHRInsights, HRInsights } from "./hr-analyzer";
+import {
+  formatUpstreamContext,
+  generateHRInsights,
+  HRInsights,
+  HRStageContext,
+} from "./hr-analyzer";
+import {
+  DocumentText,
+  getDocumentText,
+  hasUsableText,
+  resolvePageReference,
+} from "./document-text";
+import { buildQuoteIndex, verifyInsightQuote } from "./quote-verifier";
 import {
   extractBusinessOverview,
   BusinessOverview,
 } from "./business-overview-extractor";
+import { DocumentHandle } from "./document-handle";
+import { UsageLedger } from "./llm-usage";
 import { FEATURES } from "./feature-flags";
+import type { PipelineStage, ProgressReporter } from "./progress-events";
+import { openStageCache, type StageCacheSession } from "./stage-cache";
+import { getActivePromptVersions, type PromptVersions } from "../prompts";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["business_overview", "financial", "hr"];
+
+export interface ProcessingStats {
+  stage0Duration: number;
+  stage1Duration: number;
+  stage2Duration: number;
+  totalDuration: number;
+  stage0Success: boolean;
+  stage1Success: boolean;
+  stage2Success: boolean;
+  executionMode?: 'sequential' | 'parallel';
+  partialSuccess?: boolean;
+  degradedStages: PipelineStage[]; // stages whose output was replaced with defaults
+  hrContextStages?: PipelineStage[]; // upstream results the HR stage was given to cite
+  cachedStages?: PipelineStage[]; // stages reused from the stage cache instead of calling the model
+}
 
 export interface PipelineResult {
   businessOverview: BusinessOverview;
   financialMetrics: FinancialMetrics;
   hrInsights: HRInsights;
-  processingStats: {
-    stage0Duration: number;
-    stage1Duration: number;
-    stage2Duration: number;
-    totalDuration: number;
-    stage0Success: boolean;
-    stage1Success: boolean;
-    stage2Success: boolean;
-    executionMode?: 'sequential' | 'parallel';
-    partialSuccess?: boolean;
-  };
+  promptVersions: PromptVersions;
+  processingStats: ProcessingStats;
 }
 
 export interface PipelineError {
@@ -36,34 +63,122 @@ export interface PipelineError {
   };
 }
 
+// No-op reporter used when the caller doesn't track progress
+const ignoreProgress: ProgressReporter = () => {};
+
+// Text extraction is best-effort: without it the stages fall back to sending the file
+async function loadDocumentText(
+  filePath: string,
+): Promise<DocumentText | undefined> {
+  try {
+    return await getDocumentText(filePath);
+  } catch (error) {
+    console.warn("Document text extraction failed, sending raw file to stages:", error);
+    return undefined;
+  }
+}
+
+// Every stage of a run reads the report through one handle, so the file is
+// extracted and, when needed, uploaded to the provider only once
+async function openDocument(filePath: string, usage: UsageLedger): Promise<DocumentHandle> {
+  return new DocumentHandle(filePath, await loadDocumentText(filePath), usage);
+}
+
+// Checks each insight's page reference and quote against the document's real text
+function verifyInsightSources(
+  hrInsights: HRInsights,
+  documentText: DocumentText | undefined,
+): HRInsights {
+  // A scanned report went to the model as a file; its near-empty page text
+  // can't confirm or refute anything
+  if (!documentText || !hasUsableText(documentText)) return hrInsights;
+
+  const quoteIndex = buildQuoteIndex(documentText);
+  const resolve = (insights: HRInsights["businessContext"]) =>
+    insights.map((insight) => ({
+      ...insight,
+      resolvedPage: resolvePageReference(insight.pageReference, documentText),
+      quoteVerification: verifyInsightQuote(insight, quoteIndex),
+    }));
+
+  const verified: HRInsights = {
+    ...hrInsights,
+    businessContext: resolve(hrInsights.businessContext),
+    workforceInsights: resolve(hrInsights.workforceInsights),
+    operationalChallenges: resolve(hrInsights.operationalChallenges),
+    strategicPeopleInitiatives: resolve(hrInsights.strategicPeopleInitiatives),
+  };
+
+  const statuses = [
+    ...verified.businessContext,
+    ...verified.workforceInsights,
+    ...verified.operationalChallenges,
+    ...verified.strategicPeopleInitiatives,
+  ].map((insight) => insight.quoteVerification?.status);
+
+  console.log("Quote verification:", {
+    verified: statuses.filter((status) => status === "verified").length,
+    approximate: statuses.filter((status) => status === "approximate").length,
+    notFound: statuses.filter((status) => status === "not_found").length,
+    unverifiable: statuses.filter((status) => status === "unverifiable").length,
+  });
+
+  return verified;
+}
+
+// Upstream stages whose results went into the HR stage's prompt
+const contextStagesOf = (context: HRStageContext): PipelineStage[] =>
+  PIPELINE_STAGES.filter(
+    (stage) =>
+      (stage === "business_overview" && context.businessOverview) ||
+      (stage === "financial" && context.financialMetrics),
+  );
+
 // Helper function to measure stage execution time
 async function measureStage<T>(
   stageName: string,
-  stageFunction: () => Promise<T>
+  stage: PipelineStage,
+  stageFunction: () => Promise<T>,
+  onProgress: ProgressReporter,
 ): Promise<{ result: T; duration: number; success: boolean }> {
   const startTime = Date.now();
+  onProgress({ type: "stage_started", stage });
   try {
     const result = await stageFunction();
     const duration = Date.now() - startTime;
+    onProgress({ type: "stage_completed", stage, duration });
     return { result, duration, success: true };
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error(`${stageName} failed:`, error);
+    onProgress({
+      type: "stage_failed",
+      stage,
+      duration,
+      message: error instanceof Error ? error.message : String(error),
+    });
     throw { error, duration, success: false };
   }
 }
 
 // Parallel execution implementation
-async function executeStagesParallel(filePath: string): Promise<PipelineResult> {
+async function executeStagesParallel(
+  document: DocumentHandle,
+  stageCache: StageCacheSession,
+  onProgress: ProgressReporter,
+): Promise<PipelineResult> {
   const startTime = Date.now();
   console.log("Starting parallel analysis pipeline...");
 
   try {
-    // Execute all stages in parallel
+    // Execute all stages in parallel. Stage 2 can't wait for the context the
+    // other two produce, so it runs without it and cites figures from the
+    // document directly; use sequential mode when consistency matters more
+    // than latency
     const stageResults = await Promise.allSettled([
-      measureStage('Stage 0', () => extractBusinessOverview(filePath)),
-      measureStage('Stage 1', () => extractFinancialMetrics(filePath)),
-      measureStage('Stage 2', () => generateHRInsights(filePath))
+      measureStage('Stage 0', 'business_overview', () => stageCache.run('business_overview', () => extractBusinessOverview(document)), onProgress),
+      measureStage('Stage 1', 'financial', () => extractFinancialMetrics(document, stageCache), onProgress),
+      measureStage('Stage 2', 'hr', () => stageCache.run('hr', () => generateHRInsights(document)), onProgress)
     ]);
 
     // Process results
@@ -78,7 +193,7 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
     let stage0Success = false;
     let stage1Success = false;
     let stage2Success = false;
-    let partialSuccess = false;
+    const degradedStages: PipelineStage[] = [];
 
     // Handle Stage 0 (Business Overview)
     if (stage0Result.status === 'fulfilled') {
@@ -93,7 +208,12 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
     } else {
       console.warn("Stage 0 failed, using fallback");
       businessOverview = getDefaultBusinessOverview();
-      partialSuccess = true;
+      degradedStages.push("business_overview");
+      onProgress({
+        type: "stage_degraded",
+        stage: "business_overview",
+        message: "Business overview unavailable - using defaults",
+      });
     }
 
     // Handle Stage 1 (Financial Metrics)
@@ -107,14 +227,21 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
         employees: financialMetrics.employees.total,
       });
     } else {
+      // The stage already had a repair retry and the client's call retries;
+      // it's left for a stage rerun rather than run a third time here
       console.warn("Stage 1 failed, using fallback");
-      financialMetrics = await extractFinancialMetricsRelaxed(filePath);
-      partialSuccess = true;
+      financialMetrics = getDefaultFinancialMetrics();
+      degradedStages.push("financial");
+      onProgress({
+        type: "stage_degraded",
+        stage: "financial",
+        message: "Financial figures unavailable - using defaults",
+      });
     }
 
     // Handle Stage 2 (HR Insights)
     if (stage2Result.status === 'fulfilled') {
-      hrInsights = stage2Result.value.result;
+      hrInsights = verifyInsightSources(stage2Result.value.result, document.documentText);
       stage2Duration = stage2Result.value.duration;
       stage2Success = true;
       console.log("Stage 2 completed successfully:", {
@@ -124,7 +251,9 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
       });
     } else {
       console.error("Stage 2 failed, cannot proceed without HR insights");
-      throw new Error("HR insights generation failed - this is required for analysis");
+      throw new Error("HR insights generation failed - this is required for analysis", {
+        cause: (stage2Result.reason as { error: unknown }).error,
+      });
     }
 
     const totalDuration = Date.now() - startTime;
@@ -134,13 +263,14 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
       mode: 'parallel',
       duration: totalDuration,
       qualityScore,
-      partialSuccess
+      degradedStages
     });
 
     return {
       businessOverview,
       financialMetrics,
       hrInsights,
+      promptVersions: getActivePromptVersions(PIPELINE_STAGES),
       processingStats: {
         stage0Duration,
         stage1Duration,
@@ -150,7 +280,10 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
         stage1Success,
         stage2Success,
         executionMode: 'parallel',
-        partialSuccess,
+        partialSuccess: degradedStages.length > 0,
+        degradedStages,
+        hrContextStages: [],
+        cachedStages: stageCache.hits,
       },
     };
   } catch (error) {
@@ -161,6 +294,20 @@ async function executeStagesParallel(filePath: string): Promise<PipelineResult>
 
 export async function analyzeDocumentPipeline(
   filePath: string,
+  onProgress: ProgressReporter = ignoreProgress,
+  usage: UsageLedger = new UsageLedger(),
+): Promise<PipelineResult> {
+  const document = await openDocument(filePath, usage);
+  try {
+    return await runPipeline(document, onProgress);
+  } finally {
+    await document.release();
+  }
+}
+
+async function runPipeline(
+  document: DocumentHandle,
+  onProgress: ProgressReporter,
 ): Promise<PipelineResult> {
   // Debug feature flag evaluation
   console.log("Feature flag evaluation:", {
@@ -169,13 +316,19 @@ export async function analyzeDocumentPipeline(
     features_object: FEATURES
   });
   
+  const stageCache = await openStageCache(document.filePath);
+
   // Feature flag check for parallel processing
   if (FEATURES.PARALLEL_PROCESSING) {
     console.log("Parallel processing enabled - executing parallel pipeline");
     try {
-      return await executeStagesParallel(filePath);
+      return await executeStagesParallel(document, stageCache, onProgress);
     } catch (error) {
       console.warn("Parallel processing failed, falling back to sequential:", error);
+      onProgress({
+        type: "stage_degraded",
+        message: "Parallel processing failed - falling back to sequential",
+      });
       // Continue to sequential execution below
     }
   } else {
@@ -190,49 +343,86 @@ export async function analyzeDocumentPipeline(
   let stage0Success = false;
   let stage1Success = false;
   let stage2Success = false;
+  let currentStage: PipelineStage = "business_overview";
+  let currentStageStart = Date.now();
+  const degradedStages: PipelineStage[] = [];
+
+  // Tracks the running stage so a failure can be reported against it
+  const beginStage = (stage: PipelineStage): number => {
+    currentStage = stage;
+    currentStageStart = Date.now();
+    onProgress({ type: "stage_started", stage });
+    return currentStageStart;
+  };
+
+  // Stages 0 and 1 enrich the analysis but aren't required for it, so a
+  // failure substitutes defaults and is recorded rather than ending the run
+  const degradeStage = (stage: PipelineStage, error: unknown, message: string) => {
+    console.warn(`Stage ${stage} failed, continuing with defaults:`, error);
+    degradedStages.push(stage);
+    onProgress({ type: "stage_degraded", stage, duration: Date.now() - currentStageStart, message });
+  };
 
   try {
     console.log("Starting enhanced three-stage analysis pipeline...");
 
     // Stage 0: Business Overview Extraction
     console.log("Stage 0: Extracting business overview...");
-    const stage0Start = Date.now();
-
-    const businessOverview = await extractBusinessOverview(filePath);
+    const stage0Start = beginStage("business_overview");
 
+    let businessOverview: BusinessOverview;
+    try {
+      businessOverview = await stageCache.run("business_overview", () =>
+        extractBusinessOverview(document),
+      );
+      stage0Success = true;
+    } catch (error) {
+      degradeStage("business_overview", error, "Business overview unavailable - using defaults");
+      businessOverview = getDefaultBusinessOverview();
+    }
     stage0Duration = Date.now() - stage0Start;
-    stage0Success = true;
 
-    console.log("Stage 0 completed successfully:", {
-      duration: stage0Duration,
-      industry: businessOverview.industryClassification,
-      confidence: businessOverview.extractionQuality.confidence,
-      revenueStreams: businessOverview.revenueStreams.length,
-    });
+    if (stage0Success) {
+      onProgress({ type: "stage_completed", stage: "business_overview", duration: stage0Duration });
+      console.log("Stage 0 completed successfully:", {
+        duration: stage0Duration,
+        industry: businessOverview.industryClassification,
+        confidence: businessOverview.extractionQuality.confidence,
+        revenueStreams: businessOverview.revenueStreams.length,
+      });
+    }
 
     // Stage 1: Financial Metrics Extraction
     console.log("Stage 1: Extracting financial metrics...");
-    const stage1Start = Date.now();
-
-    const financialMetrics = await extractFinancialMetrics(filePath);
+    const stage1Start = beginStage("financial");
 
+    let financialMetrics: FinancialMetrics;
+    try {
+      financialMetrics = await extractFinancialMetrics(document, stageCache);
+      stage1Success = true;
+    } catch (error) {
+      degradeStage("financial", error, "Financial figures unavailable - using defaults");
+      financialMetrics = getDefaultFinancialMetrics();
+    }
     stage1Duration = Date.now() - stage1Start;
-    stage1Success = true;
-
-    console.log("Stage 1 completed successfully:", {
-      duration: stage1Duration,
-      revenue: financialMetrics.revenue.current,
-      employees: financialMetrics.employees.total,
-      confidence: financialMetrics.validation.crossCheckPassed
-        ? "high"
-        : "medium",
-    });
+
+    if (stage1Success) {
+      onProgress({ type: "stage_completed", stage: "financial", duration: stage1Duration });
+      console.log("Stage 1 completed successfully:", {
+        duration: stage1Duration,
+        revenue: financialMetrics.revenue.current,
+        employees: financialMetrics.employees.total,
+        confidence: financialMetrics.validation.crossCheckPassed
+          ? "high"
+          : "medium",
+      });
+    }
 
     // Validate financial metrics before proceeding
     if (financialMetrics.validation.flaggedForReview) {
       console.warn(
         "Financial metrics flagged for review:",
-        financialMetrics.validation.notes,
+        financialMetrics.validation.flags.map((flag) => flag.rule),
       );
     }
 
@@ -240,12 +430,25 @@ export async function analyzeDocumentPipeline(
     console.log(
       "Stage 2: Generating HR insights with business and financial context...",
     );
-    const stage2Start = Date.now();
+    const stage2Start = beginStage("hr");
 
-    const hrInsights = await generateHRInsights(filePath);
+    // Defaults from a degraded stage would only mislead the model
+    const hrContext: HRStageContext = {
+      businessOverview: stage0Success ? businessOverview : undefined,
+      financialMetrics: stage1Success ? financialMetrics : undefined,
+    };
+    const hrInsights = verifyInsightSources(
+      await stageCache.run(
+        "hr",
+        () => generateHRInsights(document, hrContext),
+        formatUpstreamContext(hrContext),
+      ),
+      document.documentText,
+    );
 
     stage2Duration = Date.now() - stage2Start;
     stage2Success = true;
+    onProgress({ type: "stage_completed", stage: "hr", duration: stage2Duration });
 
     console.log("Stage 2 completed successfully:", {
       duration: stage2Duration,
@@ -268,6 +471,7 @@ export async function analyzeDocumentPipeline(
       businessOverview,
       financialMetrics,
       hrInsights,
+      promptVersions: getActivePromptVersions(PIPELINE_STAGES),
       processingStats: {
         stage0Duration,
         stage1Duration,
@@ -277,11 +481,22 @@ export async function analyzeDocumentPipeline(
         stage1Success,
         stage2Success,
         executionMode: 'sequential',
+        partialSuccess: degradedStages.length > 0,
+        degradedStages,
+        hrContextStages: contextStagesOf(hrContext),
+        cachedStages: stageCache.hits,
       },
     };
   } catch (error) {
     const totalDuration = Date.now() - startTime;
 
+    onProgress({
+      type: "stage_failed",
+      stage: currentStage,
+      duration: Date.now() - currentStageStart,
+      message: error instanceof Error ? error.message : String(error),
+    });
+
     console.error("Pipeline failed:", {
       error: error instanceof Error ? error.message : String(error),
       stage0Success,
@@ -293,19 +508,83 @@ export async function analyzeDocumentPipeline(
       totalDuration,
     });
 
-    // Determine which stage failed and provide context
-    const stage = stage0Success
-      ? stage1Success
-        ? "hr"
-        : "financial"
-      : "business_overview";
-
     throw new Error(
-      `Analysis pipeline failed at ${stage} stage: ${error instanceof Error ? error.message : "Unknown error"}`,
+      `Analysis pipeline failed at ${currentStage} stage: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { cause: error },
     );
   }
 }
 
+export type StageRerunResult =
+  | { stage: "business_overview"; result: BusinessOverview; duration: number }
+  | { stage: "financial"; result: FinancialMetrics; duration: number }
+  | { stage: "hr"; result: HRInsights; duration: number; contextStages: PipelineStage[] };
+
+/**
+ * Runs a single stage again, without the fallbacks used in a full run: a
+ * rerun that only produced defaults would replace a degraded stage with
+ * another degraded one. An HR rerun cites the stored upstream results passed
+ * in `hrContext`
+ */
+export async function rerunPipelineStage(
+  filePath: string,
+  stage: PipelineStage,
+  onProgress: ProgressReporter = ignoreProgress,
+  hrContext: HRStageContext = {},
+  usage: UsageLedger = new UsageLedger(),
+): Promise<StageRerunResult> {
+  const document = await openDocument(filePath, usage);
+  // A rerun always calls the model; the fresh result replaces the cached one
+  const stageCache = await openStageCache(filePath, { refresh: true });
+
+  try {
+    switch (stage) {
+      case "business_overview": {
+        const { result, duration } = await measureStage(
+          "Stage 0 (Business Overview)",
+          stage,
+          () => stageCache.run(stage, () => extractBusinessOverview(document)),
+          onProgress,
+        );
+        return { stage, result, duration };
+      }
+      case "financial": {
+        const { result, duration } = await measureStage(
+          "Stage 1 (Financial Metrics)",
+          stage,
+          () => extractFinancialMetrics(document, stageCache),
+          onProgress,
+        );
+        return { stage, result, duration };
+      }
+      case "hr": {
+        const { result, duration } = await measureStage(
+          "Stage 2 (HR Insights)",
+          stage,
+          () =>
+            stageCache.run(
+              stage,
+              () => generateHRInsights(document, hrContext),
+              formatUpstreamContext(hrContext),
+            ),
+          onProgress,
+        );
+        return {
+          stage,
+          result: verifyInsightSources(result, document.documentText),
+          duration,
+          contextStages: contextStagesOf(hrContext),
+        };
+      }
+    }
+  } catch (failure) {
+    // measureStage rethrows the error wrapped with its timing
+    throw (failure as { error: unknown }).error;
+  } finally {
+    await document.release();
+  }
+}
+
 function calculateQualityScore(
   businessOverview: BusinessOverview,
   financialMetrics: FinancialMetrics,
@@ -358,59 +637,82 @@ function calculateQualityScore(
 // Enhanced error handling with fallback strategies
 export async function analyzeDocumentWithFallback(
   filePath: string,
+  usage: UsageLedger = new UsageLedger(),
 ): Promise<PipelineResult> {
+  // Shared with the recovery attempt so the file isn't uploaded a second time
+  const document = await openDocument(filePath, usage);
   try {
-    return await analyzeDocumentPipeline(filePath);
+    return await runPipeline(document, ignoreProgress);
   } catch (pipelineError) {
     console.warn("Enhanced pipeline failed, attempting recovery strategies...");
 
-    // Recovery Strategy 1: Try with relaxed extraction for all stages
+    // Recovery: run each stage on its own, keeping whatever succeeds
     try {
-      console.log("Attempting recovery with relaxed extraction...");
+      console.log("Attempting recovery, stage by stage...");
 
       // Try to get at least business overview
       let businessOverview: BusinessOverview;
+      const degradedStages: PipelineStage[] = [];
       try {
-        businessOverview = await extractBusinessOverview(filePath);
+        businessOverview = await extractBusinessOverview(document);
       } catch (overviewError) {
         console.warn(
           "Business overview extraction failed in recovery, using defaults",
         );
         businessOverview = getDefaultBusinessOverview();
+        degradedStages.push("business_overview");
       }
 
-      // Try relaxed financial extraction
-      const partialFinancials = await extractFinancialMetricsRelaxed(filePath);
+      // Another Stage 1 attempt, with the same prompt
+      const retriedFinancials = await retryFinancialMetrics(document);
+      const partialFinancials = retriedFinancials ?? getDefaultFinancialMetrics();
 
       // Try HR insights with available context
-      const hrInsights = await generateHRInsights(filePath);
+      const hrContext: HRStageContext = {
+        businessOverview: degradedStages.includes("business_overview") ? undefined : businessOverview,
+        financialMetrics: retriedFinancials ?? undefined,
+      };
+      const hrInsights = verifyInsightSources(
+        await generateHRInsights(document, hrContext),
+        document.documentText,
+      );
 
       return {
         businessOverview,
         financialMetrics: partialFinancials,
         hrInsights,
+        promptVersions: getActivePromptVersions(PIPELINE_STAGES),
         processingStats: {
           stage0Duration: 0,
           stage1Duration: 0,
           stage2Duration: 0,
           totalDuration: 0,
-          stage0Success: true,
-          stage1Success: true,
+          stage0Success: !degradedStages.includes("business_overview"),
+          stage1Success: retriedFinancials !== null,
           stage2Success: true,
+          partialSuccess: degradedStages.length > 0 || retriedFinancials === null,
+          degradedStages: retriedFinancials ? degradedStages : [...degradedStages, "financial"],
+          hrContextStages: contextStagesOf(hrContext),
         },
       };
     } catch (recoveryError) {
       console.error("Recovery strategy failed:", recoveryError);
       throw new Error(
         `Both primary pipeline and recovery strategy failed: ${pipelineError instanceof Error ? pipelineError.message : String(pipelineError)}`,
+        { cause: recoveryError },
       );
     }
+  } finally {
+    await document.release();
   }
 }
 
 // Default business overview for fallback scenarios
 function getDefaultBusinessOverview(): BusinessOverview {
   return {
+    companyName: null,
+    ticker: null,
+    fiscalYear: null,
     companyOverview: "Unable to extract company overview from document",
     businessModel: "Business model extraction failed",
     revenueStreams: [],
@@ -427,12 +729,9 @@ function getDefaultBusinessOverview(): BusinessOverview {
   };
 }
 
-// Fallback financial extraction with more lenient requirements
-async function extractFinancialMetricsRelaxed(
-  filePath: string,
-): Promise<FinancialMetrics> {
-  // Simplified extraction with default values for missing data
-  const defaultFinancials: FinancialMetrics = {
+// Financial metrics used when Stage 1 can't produce anything
+function getDefaultFinancialMetrics(): FinancialMetrics {
+  return withDerivedFigures({
     revenue: {
       current: null,
       previous: null,
@@ -463,6 +762,23 @@ async function extractFinancialMetricsRelaxed(
       confidence: "low",
       sourceText: "Unable to extract - using defaults",
     },
+    personnelCosts: unreportedAmount("Unable to extract - using defaults"),
+    operatingExpenses: unreportedAmount("Unable to extract - using defaults"),
+    researchAndDevelopment: unreportedAmount("Unable to extract - using defaults"),
+    cash: unreportedAmount("Unable to extract - using defaults"),
+    debt: unreportedAmount("Unable to extract - using defaults"),
+    segments: {
+      items: [],
+      currency: "USD",
+      confidence: "low",
+      sourceText: "Unable to extract - using defaults",
+    },
+    history: {
+      years: [],
+      currency: "USD",
+      confidence: "low",
+      sourceText: "Unable to extract - using defaults",
+    },
     validation: {
       revenueReasonable: false,
       profitMarginReasonable: false,
@@ -471,14 +787,17 @@ async function extractFinancialMetricsRelaxed(
       notes: "Fallback mode - limited financial data available",
       extractionMethod: "direct_statement",
     },
-  };
+  });
+}
 
-  // Try to extract at least some financial data with basic prompts
+// One more Stage 1 attempt; null when it fails again
+async function retryFinancialMetrics(
+  document: DocumentHandle,
+): Promise<FinancialMetrics | null> {
   try {
-    const basicFinancials = await extractFinancialMetrics(filePath);
-    return basicFinancials;
+    return await extractFinancialMetrics(document);
   } catch (error) {
-    console.warn("Even relaxed extraction failed, using defaults:", error);
-    return defaultFinancials;
+    console.warn("Financial extraction retry failed:", error);
+    return null;
   }
 }
@@ -0,0 +1,232 @@
+import type { Job, LLMCall, Upload } from "@shared/schema";
+import { storage } from "../storage";
+import { JobQueue } from "./job-queue";
+import {
+  createProgressReporter,
+  publishProgress,
+  type PipelineStage,
+} from "./progress-events";
+import {
+  analyzeDocumentPipeline,
+  rerunPipelineStage,
+  PIPELINE_STAGES,
+  type ProcessingStats,
+  type StageRerunResult,
+} from "./analysis-pipeline";
+import { linkUploadToCompany } from "./company-linker";
+import {
+  mergeStageIntoAnalysisData,
+  transformPipelineResultToAnalysisData,
+  validateAnalysisData,
+  type AnalysisData,
+} from "./data-transformer";
+import { analysisErrorClassOf, withAnalysisTimeout } from "./llm-client";
+import { UsageLedger } from "./llm-usage";
+import { getActivePromptVersions } from "../prompts";
+
+const STAGE_STAT_KEYS = {
+  business_overview: ["stage0Duration", "stage0Success"],
+  financial: ["stage1Duration", "stage1Success"],
+  hr: ["stage2Duration", "stage2Success"],
+} as const;
+
+// Stages the stored stats record as degraded, falling back to the success
+// flags for analyses from before degradedStages was recorded
+const degradedStagesOf = (stats: ProcessingStats | undefined): PipelineStage[] =>
+  !stats
+    ? []
+    : stats.degradedStages ?? PIPELINE_STAGES.filter((stage) => !stats[STAGE_STAT_KEYS[stage][1]]);
+
+// Marks the rerun stage as succeeded; the other stages keep their original outcome
+function statsAfterRerun(stats: ProcessingStats, rerun: StageRerunResult): ProcessingStats {
+  const [durationKey, successKey] = STAGE_STAT_KEYS[rerun.stage];
+  const degradedStages = degradedStagesOf(stats).filter((stage) => stage !== rerun.stage);
+
+  return {
+    ...stats,
+    [durationKey]: rerun.duration,
+    [successKey]: true,
+    partialSuccess: degradedStages.length > 0,
+    degradedStages,
+    ...(rerun.stage === "hr" && { hrContextStages: rerun.contextStages }),
+  };
+}
+
+// Runs one pipeline call with a fresh ledger that stores each model call
+// against the upload's owner as soon as it is made, so the calls of a failed
+// run and those still in flight when the analysis times out are accounted
+// for. Accounting is best-effort and never fails the job
+async function runWithUsage<T>(upload: Upload, run: (usage: UsageLedger) => Promise<T>) {
+  const stored: Promise<LLMCall[]>[] = [];
+  const usage = new UsageLedger((call) => {
+    stored.push(
+      storage
+        .createLLMCalls([{ ...call, uploadId: upload.id, analysisId: null, userId: upload.ownerId }])
+        .catch((error) => {
+          console.warn(`Upload ${upload.id}: recording model usage failed:`, error);
+          return [];
+        }),
+    );
+  });
+
+  // Points the calls stored so far at the analysis the run produced
+  const linkUsage = async (analysisId: number) => {
+    try {
+      const calls = (await Promise.all(stored)).flat();
+      await storage.setLLMCallsAnalysis(calls.map((call) => call.id), analysisId);
+    } catch (error) {
+      console.warn(`Upload ${upload.id}: linking model usage failed:`, error);
+    }
+  };
+
+  return { result: await withAnalysisTimeout(run(usage)), usage, linkUsage };
+}
+
+/**
+ * Regenerates one stage of the upload's current analysis and stores the
+ * merged result as a new version
+ */
+async function processStageRerunJob(job: Job, upload: Upload, stage: PipelineStage): Promise<void> {
+  const current = upload.currentAnalysisId
+    ? await storage.getAnalysisById(upload.currentAnalysisId)
+    : undefined;
+  if (!current) {
+    throw new Error(`Upload ${upload.id} has no current analysis to rerun ${stage} for`);
+  }
+
+  console.log(`Re-running ${stage} stage for upload ${upload.id}...`);
+  publishProgress(upload.id, { type: "analysis_started", attempt: job.attempts });
+
+  const previous: AnalysisData = JSON.parse(current.result);
+  const previousStats: ProcessingStats | undefined =
+    previous.processingStats ??
+    (current.processingStats ? JSON.parse(current.processingStats) : undefined);
+
+  // An HR rerun cites whichever stored upstream results aren't placeholders
+  const degraded = degradedStagesOf(previousStats);
+  const { result: rerun, usage, linkUsage } = await runWithUsage(upload, (usage) =>
+    rerunPipelineStage(
+      upload.filePath!,
+      stage,
+      createProgressReporter(upload.id),
+      {
+        businessOverview: degraded.includes("business_overview") ? undefined : previous.businessOverview,
+        financialMetrics: degraded.includes("financial") ? undefined : previous.financialMetrics,
+      },
+      usage,
+    ),
+  );
+  const promptVersions = {
+    ...JSON.parse(current.promptVersions),
+    ...getActivePromptVersions([stage]),
+  };
+  const processingStats = previousStats && statsAfterRerun(previousStats, rerun);
+  const analysisResult: AnalysisData = {
+    ...mergeStageIntoAnalysisData(previous, rerun),
+    promptVersions,
+    processingStats,
+  };
+
+  const analysis = await storage.createAnalysis({
+    uploadId: upload.id,
+    pipelineMode: `rerun:${stage}`,
+    promptVersions: JSON.stringify(promptVersions),
+    processingStats: processingStats ? JSON.stringify(processingStats) : null,
+    usage: JSON.stringify(usage.totals()),
+    result: JSON.stringify(analysisResult),
+  });
+  await storage.setCurrentAnalysis(upload.id, analysis);
+  await linkUsage(analysis.id);
+
+  if (rerun.stage === "business_overview") {
+    try {
+      await linkUploadToCompany(upload.id, rerun.result);
+    } catch (error) {
+      console.warn(`Upload ${upload.id}: company linking failed:`, error);
+    }
+  }
+
+  publishProgress(upload.id, { type: "analysis_completed", duration: rerun.duration });
+  console.log(`Upload ${upload.id} ${stage} stage rerun completed`);
+}
+
+/**
+ * Runs the analysis pipeline for the job's upload and stores the result
+ */
+async function processAnalysisJob(job: Job): Promise<void> {
+  const upload = await storage.getUploadById(job.uploadId);
+  if (!upload) {
+    console.warn(`Job ${job.id}: upload ${job.uploadId} no longer exists, skipping`);
+    return;
+  }
+
+  if (!upload.filePath) {
+    throw new Error(`Upload ${upload.id} has no stored file to analyze`);
+  }
+
+  if (job.type.startsWith("rerun:")) {
+    return processStageRerunJob(job, upload, job.type.slice("rerun:".length) as PipelineStage);
+  }
+
+  console.log(`Processing upload ${upload.id} (${job.type})...`);
+  publishProgress(upload.id, { type: "analysis_started", attempt: job.attempts });
+
+  // The analysis timeout keeps a hung run from holding its queue slot forever
+  const { result: pipelineResult, usage, linkUsage } = await runWithUsage(upload, (usage) =>
+    analyzeDocumentPipeline(upload.filePath!, createProgressReporter(upload.id), usage),
+  );
+  const analysisResult = transformPipelineResultToAnalysisData(pipelineResult);
+
+  // Validate the transformed data
+  if (!validateAnalysisData(analysisResult)) {
+    console.warn(`Upload ${upload.id}: Analysis data validation failed, using fallback`);
+  }
+
+  // Each run is kept as its own version; the newest becomes current
+  const analysis = await storage.createAnalysis({
+    uploadId: upload.id,
+    pipelineMode: pipelineResult.processingStats.executionMode || "sequential",
+    promptVersions: JSON.stringify(pipelineResult.promptVersions),
+    processingStats: JSON.stringify(pipelineResult.processingStats),
+    usage: JSON.stringify(usage.totals()),
+    result: JSON.stringify(analysisResult),
+  });
+  await storage.setCurrentAnalysis(upload.id, analysis);
+  await linkUsage(analysis.id);
+
+  // Grouping by company is a convenience; a linking failure shouldn't fail the analysis
+  try {
+    await linkUploadToCompany(upload.id, pipelineResult.businessOverview);
+  } catch (error) {
+    console.warn(`Upload ${upload.id}: company linking failed:`, error);
+  }
+
+  publishProgress(upload.id, {
+    type: "analysis_completed",
+    duration: pipelineResult.processingStats.totalDuration,
+  });
+
+  console.log(`Upload ${upload.id} analysis completed`);
+}
+
+async function markUploadFailed(job: Job, error: unknown): Promise<void> {
+  const errorClass = analysisErrorClassOf(error);
+
+  // A failed re-analysis leaves the previously pinned version in place; the
+  // class is kept either way so the page can say the latest attempt failed
+  const upload = await storage.getUploadById(job.uploadId);
+  await storage.updateUploadStatus(job.uploadId, upload?.currentAnalysisId ? "completed" : "failed");
+  await storage.setUploadErrorClass(job.uploadId, errorClass);
+  publishProgress(job.uploadId, {
+    type: "analysis_failed",
+    attempt: job.attempts,
+    message: error instanceof Error ? error.message : String(error),
+    errorClass,
+  });
+}
+
+export const analysisQueue = new JobQueue(
+  storage,
+  processAnalysisJob,
+  markUploadFailed,
+);
@@ -0,0 +1,130 @@
+import type { Company, Upload } from "@shared/schema";
+import { storage } from "../storage";
+import type { BusinessOverview } from "./business-overview-extractor";
+import { parseFiscalYear } from "./financial-normalizer";
+
+// Legal-form words that differ between filings of the same company
+const LEGAL_SUFFIXES = new Set([
+  "the", "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited",
+  "plc", "llc", "lp", "ag", "se", "sa", "nv", "bv", "gmbh", "spa", "ab", "asa", "oyj",
+  "bhd", "berhad", "tbk", "pte", "pty", "kk", "group", "holdings", "holding",
+]);
+
+// Share of name words two companies must have in common to count as the same
+// company when the industry agrees too
+const FUZZY_NAME_THRESHOLD = 0.75;
+
+export function normalizeCompanyName(name: string): string {
+  return toNameWords(name).join(" ");
+}
+
+function toNameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !LEGAL_SUFFIXES.has(word));
+}
+
+function nameSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(" "));
+  const wordsB = new Set(b.split(" "));
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length;
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+function sameIndustry(a: string | null, b: string | null): boolean {
+  if (!a || !b) return false;
+  const wordsA = toNameWords(a);
+  const wordsB = new Set(toNameWords(b));
+  return wordsA.some((word) => word.length > 3 && wordsB.has(word));
+}
+
+export interface CompanyIdentity {
+  name: string;
+  ticker: string | null;
+  industry: string | null;
+}
+
+/**
+ * Finds the company an identity belongs to: an exact ticker match wins, then
+ * the normalized name, then a close name match within the same industry
+ */
+export function matchCompany(identity: CompanyIdentity, companies: Company[]): Company | undefined {
+  const ticker = identity.ticker?.toUpperCase();
+  if (ticker) {
+    const byTicker = companies.find((company) => company.ticker?.toUpperCase() === ticker);
+    if (byTicker) return byTicker;
+  }
+
+  const normalizedName = normalizeCompanyName(identity.name);
+  const byName = companies.find((company) => company.normalizedName === normalizedName);
+  if (byName) return byName;
+
+  return companies.find(
+    (company) =>
+      nameSimilarity(company.normalizedName, normalizedName) >= FUZZY_NAME_THRESHOLD &&
+      sameIndustry(company.industry, identity.industry),
+  );
+}
+
+/**
+ * Returns the matching company, creating it when none exists and filling in
+ * a ticker or industry the stored company was missing
+ */
+export async function findOrCreateCompany(identity: CompanyIdentity): Promise<Company> {
+  const existing = matchCompany(identity, await storage.getCompanies());
+  if (!existing) {
+    return await storage.createCompany({
+      name: identity.name,
+      normalizedName: normalizeCompanyName(identity.name),
+      ticker: identity.ticker?.toUpperCase() ?? null,
+      industry: identity.industry,
+    });
+  }
+
+  if ((!existing.ticker && identity.ticker) || (!existing.industry && identity.industry)) {
+    return (
+      (await storage.updateCompany(existing.id, {
+        ticker: existing.ticker ?? identity.ticker?.toUpperCase() ?? null,
+        industry: existing.industry ?? identity.industry,
+      })) ?? existing
+    );
+  }
+
+  return existing;
+}
+
+/**
+ * Links an analyzed upload to its company using the name, ticker and
+ * industry from the business overview. Uploads a user linked by hand are
+ * left alone, and nothing happens when the report didn't name the company.
+ * The upload is read afresh, since the user may have linked it by hand while
+ * the analysis ran.
+ */
+export async function linkUploadToCompany(
+  uploadId: number,
+  businessOverview: BusinessOverview,
+): Promise<Upload | undefined> {
+  const upload = await storage.getUploadById(uploadId);
+  if (!upload || upload.companyLinkedBy === "manual" || !businessOverview.companyName) {
+    return upload;
+  }
+
+  const industry =
+    businessOverview.industryClassification && businessOverview.industryClassification !== "Unknown"
+      ? businessOverview.industryClassification
+      : null;
+  const company = await findOrCreateCompany({
+    name: businessOverview.companyName,
+    ticker: businessOverview.ticker,
+    industry,
+  });
+
+  return await storage.setUploadCompany(upload.id, {
+    companyId: company.id,
+    fiscalYear: businessOverview.fiscalYear ? parseFiscalYear(businessOverview.fiscalYear) : null,
+    companyLinkedBy: "auto",
+  });
+}
@@ -1,4 +1,5 @@
-import { PipelineResult } from './analysis-pipeline';
+import { PipelineResult, ProcessingStats, StageRerunResult } from './analysis-pipeline';
+import type { PromptVersions } from '../prompts';
 
 export interface AnalysisData {
   summary: string;
@@ -8,6 +9,8 @@ export interface AnalysisData {
   operationalChallenges: any[];
   strategicPeopleInitiatives: any[];
   financialMetrics?: any;
+  promptVersions?: PromptVersions;
+  processingStats?: ProcessingStats;
 }
 
 /**
@@ -21,10 +24,33 @@ export function transformPipelineResultToAnalysisData(pipelineResult: PipelineRe
     workforceInsights: pipelineResult.hrInsights.workforceInsights,
     operationalChallenges: pipelineResult.hrInsights.operationalChallenges,
     strategicPeopleInitiatives: pipelineResult.hrInsights.strategicPeopleInitiatives,
-    financialMetrics: pipelineResult.financialMetrics
+    financialMetrics: pipelineResult.financialMetrics,
+    promptVersions: pipelineResult.promptVersions,
+    processingStats: pipelineResult.processingStats
   };
 }
 
+/**
+ * Replaces one stage's output in a stored analysis with a rerun's result
+ */
+export function mergeStageIntoAnalysisData(data: AnalysisData, rerun: StageRerunResult): AnalysisData {
+  switch (rerun.stage) {
+    case 'business_overview':
+      return { ...data, businessOverview: rerun.result };
+    case 'financial':
+      return { ...data, financialMetrics: rerun.result };
+    case 'hr':
+      return {
+        ...data,
+        summary: rerun.result.summary,
+        businessContext: rerun.result.businessContext,
+        workforceInsights: rerun.result.workforceInsights,
+        operationalChallenges: rerun.result.operationalChallenges,
+        strategicPeopleInitiatives: rerun.result.strategicPeopleInitiatives
+      };
+  }
+}
+
 /**
  * Validates that the transformed data has required fields
  */
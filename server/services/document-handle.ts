@@ -0,0 +1,89 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import {
+  DocumentText,
+  formatDocumentTextForPrompt,
+  hasUsableText,
+} from "./document-text";
+import { getLLMProvider, type DocumentInput } from "./llm-provider";
+import { UsageLedger } from "./llm-usage";
+
+// The report formats uploads accept, by extension
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/**
+ * The MIME type of a report file, or undefined for a format uploads don't accept
+ */
+export const mimeTypeOf = (fileName: string): string | undefined =>
+  MIME_TYPES[path.extname(fileName).toLowerCase()];
+
+/**
+ * One analysis run's reference to its report, shared by every stage. The
+ * document is prepared once, on first use: the page-marked text extracted on
+ * our side when there is any, otherwise the file uploaded to the provider
+ * (or read inline when the provider has no upload support). A run served
+ * entirely from the stage cache never prepares it at all.
+ */
+export class DocumentHandle {
+  private input: Promise<DocumentInput> | null = null;
+
+  constructor(
+    readonly filePath: string,
+    readonly documentText?: DocumentText,
+    readonly usage: UsageLedger = new UsageLedger(), // model calls made while reading it
+  ) {}
+
+  resolve(): Promise<DocumentInput> {
+    if (!this.input) {
+      this.input = this.prepare();
+      // A failed preparation shouldn't stick; the next stage tries again
+      this.input.catch(() => {
+        this.input = null;
+      });
+    }
+    return this.input;
+  }
+
+  /**
+   * Deletes the provider-side copy, if one was uploaded. Uploads expire on
+   * their own, so a failure here is only logged.
+   */
+  async release(): Promise<void> {
+    const input = await this.input?.catch(() => null);
+    if (input?.kind !== "uploaded") return;
+
+    try {
+      await getLLMProvider().deleteDocument?.(input);
+    } catch (error) {
+      console.warn(`Deleting uploaded document ${input.name} failed:`, error);
+    }
+  }
+
+  private async prepare(): Promise<DocumentInput> {
+    if (this.documentText && hasUsableText(this.documentText)) {
+      return { kind: "text", text: formatDocumentTextForPrompt(this.documentText) };
+    }
+
+    const mimeType = mimeTypeOf(this.filePath);
+    if (!mimeType) {
+      throw new Error(`Unsupported document type: ${path.basename(this.filePath)}`);
+    }
+    const provider = getLLMProvider();
+    if (provider.uploadDocument) {
+      try {
+        const uploaded = await provider.uploadDocument(this.filePath, mimeType);
+        console.log(`Uploaded ${this.filePath} to ${provider.name} once for all stages`);
+        return uploaded;
+      } catch (error) {
+        console.warn("Document upload failed, sending the file inline instead:", error);
+      }
+    }
+
+    const fileBuffer = await readFile(this.filePath);
+    return { kind: "file", data: fileBuffer.toString("base64"), mimeType };
+  }
+}
@@ -0,0 +1,153 @@
+import { promises as fs } from "fs";
+import mammoth from "mammoth";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface DocumentText {
+  pageCount: number;
+  pages: PageText[];
+  // "layout" for PDFs; DOCX has no fixed layout, so pages follow explicit page breaks
+  pagination: "layout" | "page_breaks";
+  extractedAt: string;
+}
+
+// Extracted text is cached beside the uploaded file so re-analysis skips parsing
+export function getDocumentTextPath(filePath: string): string {
+  return `${filePath}.pages.json`;
+}
+
+async function extractPdfPages(buffer: Buffer): Promise<PageText[]> {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const pages: PageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = "";
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        text += item.str;
+        if (item.hasEOL) text += "\n";
+        else if (item.str && !item.str.endsWith(" ")) text += " ";
+      }
+
+      pages.push({ pageNumber, text: text.replace(/[ \t]+\n/g, "\n").trim() });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|li|tr)>/g, "\n")
+    .replace(/<br\s*\/?>/g, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractDocxPages(buffer: Buffer): Promise<PageText[]> {
+  // Map hard page breaks to <hr> so the HTML can be split back into pages
+  const { value: html } = await mammoth.convertToHtml(
+    { buffer },
+    { styleMap: ["br[type='page'] => hr"] },
+  );
+
+  return html
+    .split(/<hr\s*\/?>/)
+    .map((section, index) => ({ pageNumber: index + 1, text: htmlToText(section) }));
+}
+
+export async function extractDocumentText(filePath: string): Promise<DocumentText> {
+  const buffer = await fs.readFile(filePath);
+  const isPdf = filePath.toLowerCase().endsWith(".pdf");
+
+  const pages = isPdf ? await extractPdfPages(buffer) : await extractDocxPages(buffer);
+
+  return {
+    pageCount: pages.length,
+    pages,
+    pagination: isPdf ? "layout" : "page_breaks",
+    extractedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns the per-page text for an upload, extracting it on first use and
+ * reading the cached copy afterwards
+ */
+export async function getDocumentText(filePath: string): Promise<DocumentText> {
+  const textPath = getDocumentTextPath(filePath);
+
+  try {
+    return JSON.parse(await fs.readFile(textPath, "utf-8")) as DocumentText;
+  } catch {
+    // Not extracted yet (or unreadable) - fall through and extract
+  }
+
+  const documentText = await extractDocumentText(filePath);
+  await fs.writeFile(textPath, JSON.stringify(documentText));
+
+  console.log("Document text extracted:", {
+    pageCount: documentText.pageCount,
+    characters: documentText.pages.reduce((sum, page) => sum + page.text.length, 0),
+  });
+
+  return documentText;
+}
+
+export async function deleteDocumentText(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(getDocumentTextPath(filePath));
+  } catch {
+    // Nothing cached for this upload
+  }
+}
+
+// Scanned PDFs produce little or no text layer; those still go to the model as a file
+export function hasUsableText(documentText: DocumentText): boolean {
+  const characters = documentText.pages.reduce((sum, page) => sum + page.text.trim().length, 0);
+  return characters >= documentText.pageCount * 20;
+}
+
+export function formatDocumentTextForPrompt(documentText: DocumentText): string {
+  return documentText.pages
+    .map((page) => `--- Page ${page.pageNumber} ---\n${page.text}`)
+    .join("\n\n");
+}
+
+/**
+ * Resolves a free-text reference such as "Page 12, Human Capital" or "p. 4"
+ * to a page number that exists in the document, or null if it doesn't
+ */
+export function resolvePageReference(
+  reference: string | undefined,
+  documentText: DocumentText,
+): number | null {
+  if (!reference) return null;
+
+  const match = reference.match(/\b(?:pages?|pp|pg|p)\.?\s*(\d{1,4})/i) ?? reference.match(/^\s*(\d{1,4})\b/);
+  if (!match) return null;
+
+  const pageNumber = parseInt(match[1], 10);
+  return pageNumber >= 1 && pageNumber <= documentText.pageCount ? pageNumber : null;
+}
@@ -2,7 +2,8 @@
  * Feature flags configuration for gradual rollout and safe deployment
  */
 export const FEATURES = {
-  PARALLEL_PROCESSING: process.env.ENABLE_PARALLEL_PROCESSING === 'true'
+  PARALLEL_PROCESSING: process.env.ENABLE_PARALLEL_PROCESSING === 'true',
+  STAGE_CACHE: process.env.DISABLE_STAGE_CACHE !== 'true'
 };
 
 export const getFeatureFlag = (flag: keyof typeof FEATURES): boolean => {
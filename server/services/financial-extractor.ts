@@ -1,9 +1,37 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { readFileSync } from "fs";
+import { getPrompt } from "../prompts";
+import { generateStructured } from "./structured-output";
+import { financialMetricsSchema, unwrapFinancialResponse } from "./llm-schemas";
+import type { DocumentHandle } from "./document-handle";
+import type { StageCacheSession } from "./stage-cache";
+import {
+  normalizeFinancialMetrics,
+  type NormalizedFinancials,
+} from "./financial-normalizer";
+import { computeHRKpis, type HRKpi } from "./hr-kpis";
+import { validateFinancialFigures, type ValidationFlag } from "./financial-validation";
+
+// A single reported amount such as personnel costs or cash
+export interface FinancialAmount {
+  amount: string | null;
+  currency: string;
+  confidence: "high" | "medium" | "low";
+  sourceText: string;
+}
+
+export interface SegmentRevenue {
+  name: string;
+  revenue: string | null;
+}
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+// One fiscal year of the report's multi-year summary
+export interface FinancialYear {
+  fiscalYear: string; // as labelled in the report, e.g. "2024" or "FY2023/24"
+  revenue: string | null;
+  profit: string | null; // negative for a loss
+  employees: number | null;
+  personnelCosts: string | null;
+}
 
-// Keep your existing FinancialMetrics interface exactly as-is
 export interface FinancialMetrics {
   revenue: {
     current: string | null;
@@ -35,6 +63,25 @@ export interface FinancialMetrics {
     confidence: "high" | "medium" | "low";
     sourceText: string;
   };
+  personnelCosts: FinancialAmount; // compensation and benefits expense
+  operatingExpenses: FinancialAmount;
+  researchAndDevelopment: FinancialAmount;
+  cash: FinancialAmount; // cash and equivalents at year-end
+  debt: FinancialAmount; // total borrowings, excluding leases
+  segments: {
+    items: SegmentRevenue[];
+    currency: string;
+    confidence: "high" | "medium" | "low";
+    sourceText: string;
+  };
+  history: {
+    years: FinancialYear[];
+    currency: string;
+    confidence: "high" | "medium" | "low";
+    sourceText: string;
+  };
+  // The booleans are derived from the rule flags; notes and extractionMethod
+  // are the model's own
   validation: {
     revenueReasonable: boolean;
     profitMarginReasonable: boolean;
@@ -42,192 +89,81 @@ export interface FinancialMetrics {
     flaggedForReview: boolean;
     notes: string;
     extractionMethod: string;
+    flags: ValidationFlag[];
   };
+  normalized: NormalizedFinancials; // the amounts above as numbers with currency and scale
+  kpis: HRKpi[]; // workforce KPIs derived from the normalized amounts
 }
 
-// REPLACE your existing RELIABLE_FINANCIAL_EXTRACTION_PROMPT with this:
-const RELIABLE_FINANCIAL_EXTRACTION_PROMPT = `Extract key financial metrics from this document. Return valid JSON only.
-
-RULES:
-- All amounts in base units (2610000000, not "2.61B")  
-- Use null for missing data
-- Include exact quotes in sourceText
-- Currency should be 3-letter code (USD, CAD, etc.)
-
-REQUIRED FORMAT:
-{
-  "success": true,
-  "data": {
-    "revenue": {
-      "current": "2610000000",
-      "previous": null,
-      "growth": null,
-      "currency": "USD",
-      "confidence": "high",
-      "sourceText": "Revenue was $2.61 billion",
-      "extractionMethod": "direct_statement"
-    },
-    "profitLoss": {
-      "type": "profit",
-      "amount": "28000000",
-      "margin": null,
-      "confidence": "high",
-      "sourceText": "Net income of $28 million",
-      "validationFlags": []
-    },
-    "employees": {
-      "total": 5914,
-      "previousYear": null,
-      "growth": null,
-      "confidence": "high",
-      "sourceText": "5,914 employees as of year-end"
-    },
-    "assets": {
-      "total": "9437000000",
-      "currency": "USD",
-      "confidence": "high",
-      "sourceText": "Total assets of $9.4 billion"
-    },
-    "validation": {
-      "revenueReasonable": true,
-      "profitMarginReasonable": true,
-      "crossCheckPassed": true,
-      "flaggedForReview": false,
-      "notes": "Successfully extracted core metrics",
-      "extractionMethod": "direct_statement"
-    }
-  }
+// What the model returns, before normalization and rule checks
+export type ExtractedFinancialMetrics = Omit<FinancialMetrics, "normalized" | "kpis" | "validation"> & {
+  validation: Omit<FinancialMetrics["validation"], "flags">;
+};
+
+/**
+ * Adds everything computed from the extracted figures: normalized amounts,
+ * workforce KPIs and the rule-based validation that replaces the model's
+ * self-assessment
+ */
+export function withDerivedFigures(metrics: ExtractedFinancialMetrics): FinancialMetrics {
+  const normalized = normalizeFinancialMetrics(metrics);
+  return {
+    ...metrics,
+    validation: { ...metrics.validation, ...validateFinancialFigures({ ...metrics, normalized }) },
+    normalized,
+    kpis: computeHRKpis({ employees: metrics.employees, normalized }),
+  };
 }
 
-Extract financial data now:`;
-
-// ADD these new helper functions before your main function:
-function parseFinancialResponse(text: string): FinancialMetrics {
-  const fullJsonMatch = text.match(/\{[\s\S]*\}/);
-  if (fullJsonMatch) {
-    try {
-      const parsed = JSON.parse(fullJsonMatch[0]);
-
-      // Handle new format with success wrapper
-      if (parsed.success && parsed.data) {
-        return parsed.data as FinancialMetrics;
-      }
-
-      // Handle legacy format (your current structure)
-      if (parsed.financialMetrics) {
-        return parsed.financialMetrics as FinancialMetrics;
-      }
-
-      // Handle direct format
-      if (parsed.revenue || parsed.profitLoss) {
-        return parsed as FinancialMetrics;
-      }
-    } catch (parseError) {
-      console.warn("Primary JSON parsing failed, trying fallbacks");
-    }
-  }
-
-  return createFailsafeMetrics("JSON parsing failed");
+// Placeholder for an amount the report doesn't state (or the model didn't find)
+export function unreportedAmount(sourceText: string): FinancialAmount {
+  return { amount: null, currency: "USD", confidence: "low", sourceText };
 }
 
-function createFailsafeMetrics(errorMessage: string): FinancialMetrics {
-  return {
-    revenue: {
-      current: null,
-      previous: null,
-      growth: null,
-      currency: "USD",
-      confidence: "low",
-      sourceText: "Extraction failed",
-      extractionMethod: "calculated",
-    },
-    profitLoss: {
-      type: "profit",
-      amount: null,
-      margin: null,
-      confidence: "low",
-      sourceText: "Extraction failed",
-      validationFlags: ["system_error"],
+// The figures as the model reported them, before anything is derived
+async function extractReportedFigures(document: DocumentHandle): Promise<ExtractedFinancialMetrics> {
+  const prompt = getPrompt("financial");
+
+  // Validated against the schema, with one repair retry on failure
+  return await generateStructured<ExtractedFinancialMetrics>(
+    {
+      stage: "financial",
+      prompt: prompt.template,
+      document: await document.resolve(),
+      generationConfig: prompt.generationConfig,
+      usage: document.usage,
     },
-    employees: {
-      total: null,
-      previousYear: null,
-      growth: null,
-      confidence: "low",
-      sourceText: "Extraction failed",
-    },
-    assets: {
-      total: null,
-      currency: "USD",
-      confidence: "low",
-      sourceText: "Extraction failed",
-    },
-    validation: {
-      revenueReasonable: false,
-      profitMarginReasonable: false,
-      crossCheckPassed: false,
-      flaggedForReview: true,
-      notes: `System error: ${errorMessage}`,
-      extractionMethod: "calculated",
-    },
-  };
+    financialMetricsSchema,
+    unwrapFinancialResponse,
+  );
 }
 
-// REPLACE your existing extractFinancialMetrics function with this:
+/**
+ * Extracts the report's figures and adds the derived ones. Only the model's
+ * output goes through the stage cache; normalization, KPIs and validation run
+ * on every call, so changes to them apply to cached results too.
+ */
 export async function extractFinancialMetrics(
-  filePath: string,
+  document: DocumentHandle,
+  stageCache?: StageCacheSession,
 ): Promise<FinancialMetrics> {
   try {
-    const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
-      generationConfig: {
-        temperature: 0.1,
-        topP: 0.8,
-        maxOutputTokens: 2048, // Added limit for consistency
-      },
-    });
-
-    const fileBuffer = readFileSync(filePath);
-    const base64Data = fileBuffer.toString("base64");
+    const financialMetrics = stageCache
+      ? await stageCache.run("financial", () => extractReportedFigures(document))
+      : await extractReportedFigures(document);
 
-    const mimeType = filePath.toLowerCase().endsWith(".pdf")
-      ? "application/pdf"
-      : "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-
-    const result = await model.generateContent([
-      RELIABLE_FINANCIAL_EXTRACTION_PROMPT,
-      {
-        inlineData: {
-          data: base64Data,
-          mimeType: mimeType,
-        },
-      },
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
-
-    // Use new robust parsing instead of your existing JSON extraction
-    const financialMetrics = parseFinancialResponse(text);
-
-    // Keep your existing validation concept but improve it
-    if (
-      financialMetrics.validation &&
-      !financialMetrics.validation.crossCheckPassed
-    ) {
+    const checkedMetrics = withDerivedFigures(financialMetrics);
+    if (checkedMetrics.validation.flaggedForReview) {
       console.warn(
-        "Financial data failed cross-check validation:",
-        financialMetrics.validation.notes,
+        "Financial figures flagged for review:",
+        checkedMetrics.validation.flags.map((flag) => `${flag.rule}: ${flag.message}`),
       );
     }
 
-    return financialMetrics;
+    return checkedMetrics;
   } catch (error) {
+    // Rethrown so the pipeline can record Stage 1 as degraded
     console.error("Financial extraction failed:", error);
-
-    // Instead of throwing, return meaningful defaults
-    return createFailsafeMetrics(
-      error instanceof Error ? error.message : "Unknown error",
-    );
+    throw error;
   }
 }
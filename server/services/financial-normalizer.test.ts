@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeAmount,
+  parseFiscalYear,
+  parseLocalizedNumber,
+  resolveCurrency,
+} from "./financial-normalizer";
+
+describe("normalizeAmount", () => {
+  it("applies word scales", () => {
+    expect(normalizeAmount("$2.61 billion")).toMatchObject({
+      value: 2_610_000_000,
+      currency: "USD",
+      scale: "billions",
+    });
+    expect(normalizeAmount("€1.234,5 Mio")).toMatchObject({
+      value: 1_234_500_000,
+      currency: "EUR",
+      scale: "millions",
+    });
+  });
+
+  it("reads accounting parentheses and leading signs as negative", () => {
+    expect(normalizeAmount("(371,094)")?.value).toBe(-371_094);
+    expect(normalizeAmount("$(12.5) million")?.value).toBe(-12_500_000);
+    expect(normalizeAmount("-28 million")?.value).toBe(-28_000_000);
+  });
+
+  it("recognizes rupee amounts in lakhs and crores", () => {
+    expect(normalizeAmount("Rs. 1,234 crore")).toMatchObject({
+      value: 12_340_000_000,
+      currency: "INR",
+      scale: "crores",
+    });
+    expect(normalizeAmount("Rs 45 lakhs")).toMatchObject({
+      value: 4_500_000,
+      currency: "INR",
+      scale: "lakhs",
+    });
+    expect(normalizeAmount("₹ 12.5 lakh")).toMatchObject({ value: 1_250_000, currency: "INR" });
+    expect(normalizeAmount("INR 3,400 cr")).toMatchObject({
+      value: 34_000_000_000,
+      currency: "INR",
+      scale: "crores",
+    });
+  });
+
+  it("skips a leading year when picking the amount", () => {
+    expect(normalizeAmount("2024 revenue: $2.9 billion")).toMatchObject({
+      value: 2_900_000_000,
+      currency: "USD",
+      scale: "billions",
+    });
+    expect(normalizeAmount("FY2023: 1,200 million")?.value).toBe(1_200_000_000);
+  });
+
+  it("still reads a year-like figure when it is the only number or carries a scale", () => {
+    expect(normalizeAmount("2024")?.value).toBe(2024);
+    expect(normalizeAmount("$2024")?.value).toBe(2024);
+    expect(normalizeAmount("2024 million")?.value).toBe(2_024_000_000);
+  });
+
+  it("returns null when there is no number", () => {
+    expect(normalizeAmount(null)).toBeNull();
+    expect(normalizeAmount("")).toBeNull();
+    expect(normalizeAmount("not disclosed")).toBeNull();
+  });
+});
+
+describe("parseLocalizedNumber", () => {
+  it("handles both decimal marks", () => {
+    expect(parseLocalizedNumber("1.234,5")).toBe(1234.5);
+    expect(parseLocalizedNumber("1,234.5")).toBe(1234.5);
+    expect(parseLocalizedNumber("1,234")).toBe(1234);
+    expect(parseLocalizedNumber("1.234.567")).toBe(1_234_567);
+    expect(parseLocalizedNumber("2.61")).toBe(2.61);
+  });
+});
+
+describe("resolveCurrency", () => {
+  it("prefers the text, then the reported currency, then USD", () => {
+    expect(resolveCurrency("HK$ 12 million")).toBe("HKD");
+    expect(resolveCurrency("12 million", "gbp")).toBe("GBP");
+    expect(resolveCurrency("12 million", "₹")).toBe("INR");
+    expect(resolveCurrency("12 million")).toBe("USD");
+  });
+});
+
+describe("parseFiscalYear", () => {
+  it("reads the year the fiscal year ends in", () => {
+    expect(parseFiscalYear("2024")).toBe(2024);
+    expect(parseFiscalYear("FY24")).toBe(2024);
+    expect(parseFiscalYear("2023/24")).toBe(2024);
+    expect(parseFiscalYear("n/a")).toBeNull();
+  });
+});
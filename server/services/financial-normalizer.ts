@@ -0,0 +1,306 @@
+// Turns the amount strings the financial stage returns into numbers the
+// charts and validation can use without re-parsing
+
+export type AmountScale =
+  | "units"
+  | "thousands"
+  | "lakhs"
+  | "millions"
+  | "crores"
+  | "billions"
+  | "trillions";
+
+export interface NormalizedAmount {
+  value: number; // in base units; negative for losses
+  currency: string; // ISO 4217 code
+  scale: AmountScale; // the scale the figure was written in
+  originalText: string;
+}
+
+export interface NormalizedFinancials {
+  revenue: {
+    current: NormalizedAmount | null;
+    previous: NormalizedAmount | null;
+  };
+  profitLoss: {
+    amount: NormalizedAmount | null;
+  };
+  assets: {
+    total: NormalizedAmount | null;
+  };
+  personnelCosts: { amount: NormalizedAmount | null };
+  operatingExpenses: { amount: NormalizedAmount | null };
+  researchAndDevelopment: { amount: NormalizedAmount | null };
+  cash: { amount: NormalizedAmount | null };
+  debt: { amount: NormalizedAmount | null };
+  segments: {
+    items: { name: string; revenue: NormalizedAmount | null }[];
+  };
+  history: {
+    years: NormalizedFinancialYear[]; // oldest first
+  };
+}
+
+export interface NormalizedFinancialYear {
+  fiscalYear: string;
+  year: number | null; // calendar year the fiscal year ends in, used for ordering
+  revenue: NormalizedAmount | null;
+  profit: NormalizedAmount | null;
+  employees: number | null;
+  personnelCosts: NormalizedAmount | null;
+}
+
+const SCALE_MULTIPLIERS: Record<AmountScale, number> = {
+  units: 1,
+  thousands: 1e3,
+  lakhs: 1e5,
+  millions: 1e6,
+  crores: 1e7,
+  billions: 1e9,
+  trillions: 1e12,
+};
+
+// Checked in order, so longer words come before their abbreviations
+const SCALE_WORDS: [RegExp, AmountScale][] = [
+  [/^(?:thousands?|tsd|k)$/, "thousands"],
+  [/^(?:lakhs?|lacs?)$/, "lakhs"],
+  [/^(?:millions?|mio|mn|mm|m|juta)$/, "millions"],
+  [/^(?:crores?|cr)$/, "crores"],
+  [/^(?:billions?|milliards?|miliar|mrd|bn|b)$/, "billions"],
+  [/^(?:trillions?|tn|t)$/, "trillions"],
+];
+
+// Most specific symbols first so "HK$" isn't read as "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["US$", "USD"],
+  ["HK$", "HKD"],
+  ["A$", "AUD"],
+  ["C$", "CAD"],
+  ["S$", "SGD"],
+  ["NZ$", "NZD"],
+  ["RM", "MYR"],
+  ["Rp", "IDR"],
+  ["Rs", "INR"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["₹", "INR"],
+  ["₱", "PHP"],
+  ["฿", "THB"],
+  ["₩", "KRW"],
+  ["¥", "JPY"],
+  ["$", "USD"],
+];
+
+const ISO_CODES = new Set([
+  ...CURRENCY_SYMBOLS.map(([, code]) => code),
+  "CNY", "CHF", "SEK", "NOK", "DKK", "ZAR", "BRL", "MXN", "TWD", "VND", "AED", "SAR",
+]);
+
+/**
+ * Picks the currency from the amount text itself, falling back to the code
+ * the model reported for the metric and finally to USD
+ */
+export function resolveCurrency(text: string, reportedCurrency?: string | null): string {
+  const code = text.match(/\b[A-Z]{3}\b/g)?.find((candidate) => ISO_CODES.has(candidate));
+  if (code) return code;
+
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => text.includes(candidate));
+  if (symbol) return symbol[1];
+
+  const reported = reportedCurrency?.trim();
+  if (reported) {
+    if (/^[A-Za-z]{3}$/.test(reported)) return reported.toUpperCase();
+    const reportedSymbol = CURRENCY_SYMBOLS.find(([candidate]) => reported.includes(candidate));
+    if (reportedSymbol) return reportedSymbol[1];
+  }
+
+  return "USD";
+}
+
+function resolveScale(word: string | undefined): AmountScale {
+  if (!word) return "units";
+  const normalized = word.toLowerCase().replace(/\.$/, "");
+  return SCALE_WORDS.find(([pattern]) => pattern.test(normalized))?.[1] ?? "units";
+}
+
+/**
+ * Reads a digit string that may use either "," or "." as the decimal mark.
+ * "1.234,5" and "1,234.5" are both 1234.5; a lone separator followed by
+ * exactly three digits ("1,234") is read as a thousands separator.
+ */
+export function parseLocalizedNumber(digits: string): number | null {
+  const compact = digits.replace(/[\s']/g, "");
+  if (!/^\d[\d.,]*$/.test(compact)) return null;
+
+  const lastComma = compact.lastIndexOf(",");
+  const lastDot = compact.lastIndexOf(".");
+  let decimalMark: "," | "." | null = null;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    decimalMark = lastComma > lastDot ? "," : ".";
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const mark = lastComma !== -1 ? "," : ".";
+    const groups = compact.split(mark);
+    const isThousandsGrouping =
+      groups.slice(1).every((group) => group.length === 3) && (groups.length > 2 || mark === ",");
+    decimalMark = isThousandsGrouping ? null : mark;
+  }
+
+  const thousandsMark = decimalMark === "," ? "." : ",";
+  let normalized = compact.split(thousandsMark).join("");
+  if (decimalMark === null) {
+    normalized = normalized.replace(/[.,]/g, "");
+  } else if (decimalMark === ",") {
+    normalized = normalized.replace(",", ".");
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+const AMOUNT_PATTERN =
+  /([-−–])?\s*\(?\s*([A-Za-z]{0,3}[$€£₹₱฿₩¥]|RM|Rp|Rs\.?|[A-Z]{3})?\s*\(?\s*([-−–])?\s*(\d[\d\s'.,]*)\)?\s*([A-Za-z]+\.?)?/g;
+
+// A bare calendar year ("2024 revenue: $2.9 billion") labels the figure
+// rather than being it
+const YEAR_TOKEN = /^(?:19|20)\d{2}$/;
+
+function isYearLabel(match: RegExpMatchArray): boolean {
+  const [, , currencySymbol, , digits, scaleWord] = match;
+  return (
+    !currencySymbol &&
+    YEAR_TOKEN.test(digits.replace(/[\s.,]+$/, "")) &&
+    resolveScale(scaleWord) === "units"
+  );
+}
+
+// Accounting notation: "(371,094)" or "$(12.5) million"
+const PARENTHESIZED_NUMBER = /\([^)]*\d[^)]*\)/;
+
+/**
+ * Normalizes a single amount such as "2610000000", "$2.61 billion",
+ * "(371,094)", "€1.234,5 Mio", "Rs. 1,234 crore" or "-28 million". Returns
+ * null when the text holds no number.
+ */
+export function normalizeAmount(
+  text: string | number | null | undefined,
+  reportedCurrency?: string | null,
+): NormalizedAmount | null {
+  if (text === null || text === undefined) return null;
+  const originalText = String(text).trim();
+  if (!originalText) return null;
+
+  const matches = Array.from(originalText.matchAll(AMOUNT_PATTERN));
+  const match = matches.find((candidate) => !isYearLabel(candidate)) ?? matches[0];
+  if (!match) return null;
+
+  const [, leadingSign, , innerSign, digits, scaleWord] = match;
+  const amount = parseLocalizedNumber(digits.replace(/[\s.,]+$/, ""));
+  if (amount === null) return null;
+
+  const scale = resolveScale(scaleWord);
+  const isNegative =
+    Boolean(leadingSign || innerSign) || PARENTHESIZED_NUMBER.test(originalText);
+
+  return {
+    value: (isNegative ? -1 : 1) * amount * SCALE_MULTIPLIERS[scale],
+    currency: resolveCurrency(originalText, reportedCurrency),
+    scale,
+    originalText,
+  };
+}
+
+interface AmountField {
+  amount: string | null;
+  currency: string;
+}
+
+interface FinancialAmountFields {
+  revenue: { current: string | null; previous: string | null; currency: string };
+  profitLoss: { type: "profit" | "loss" | "breakeven"; amount: string | null };
+  assets: { total: string | null; currency: string };
+  personnelCosts: AmountField;
+  operatingExpenses: AmountField;
+  researchAndDevelopment: AmountField;
+  cash: AmountField;
+  debt: AmountField;
+  segments: { items: { name: string; revenue: string | null }[]; currency: string };
+  history: {
+    years: {
+      fiscalYear: string;
+      revenue: string | null;
+      profit: string | null;
+      employees: number | null;
+      personnelCosts: string | null;
+    }[];
+    currency: string;
+  };
+}
+
+/**
+ * Reads the year a fiscal year label ends in: "2024", "FY24" and "2023/24"
+ * all give 2024
+ */
+export function parseFiscalYear(label: string): number | null {
+  const years = label.match(/\d{4}|\d{2}(?!\d)/g);
+  if (!years) return null;
+
+  const last = years[years.length - 1];
+  if (last.length === 4) return Number(last);
+
+  const century = years.length > 1 && years[0].length === 4 ? years[0].slice(0, 2) : "20";
+  return Number(`${century}${last}`);
+}
+
+// Expenses and debt are magnitudes; a stray sign or accounting parentheses
+// shouldn't turn them negative
+function normalizeMagnitude(field: AmountField): { amount: NormalizedAmount | null } {
+  const amount = normalizeAmount(field.amount, field.currency);
+  return { amount: amount && { ...amount, value: Math.abs(amount.value) } };
+}
+
+export function normalizeFinancialMetrics(metrics: FinancialAmountFields): NormalizedFinancials {
+  const profitLoss = normalizeAmount(metrics.profitLoss.amount, metrics.revenue.currency);
+
+  // The model usually reports a loss as a positive amount with type "loss"
+  if (profitLoss && metrics.profitLoss.type === "loss" && profitLoss.value > 0) {
+    profitLoss.value = -profitLoss.value;
+  }
+
+  return {
+    revenue: {
+      current: normalizeAmount(metrics.revenue.current, metrics.revenue.currency),
+      previous: normalizeAmount(metrics.revenue.previous, metrics.revenue.currency),
+    },
+    profitLoss: { amount: profitLoss },
+    assets: {
+      total: normalizeAmount(metrics.assets.total, metrics.assets.currency),
+    },
+    personnelCosts: normalizeMagnitude(metrics.personnelCosts),
+    operatingExpenses: normalizeMagnitude(metrics.operatingExpenses),
+    researchAndDevelopment: normalizeMagnitude(metrics.researchAndDevelopment),
+    cash: normalizeMagnitude(metrics.cash),
+    debt: normalizeMagnitude(metrics.debt),
+    segments: {
+      items: metrics.segments.items.map((segment) => ({
+        name: segment.name,
+        revenue: normalizeAmount(segment.revenue, metrics.segments.currency),
+      })),
+    },
+    history: {
+      years: metrics.history.years
+        .map((entry) => ({
+          fiscalYear: entry.fiscalYear,
+          year: parseFiscalYear(entry.fiscalYear),
+          revenue: normalizeAmount(entry.revenue, metrics.history.currency),
+          profit: normalizeAmount(entry.profit, metrics.history.currency),
+          employees: entry.employees,
+          personnelCosts: normalizeMagnitude({
+            amount: entry.personnelCosts,
+            currency: metrics.history.currency,
+          }).amount,
+        }))
+        .sort((a, b) => (a.year ?? 0) - (b.year ?? 0)),
+    },
+  };
+}
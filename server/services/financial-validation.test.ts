@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAmount } from "./financial-normalizer";
+import { validateFinancialFigures, type ValidatedFigures } from "./financial-validation";
+
+interface FigureOverrides {
+  revenue?: string | null;
+  previousRevenue?: string | null;
+  revenueGrowth?: string | null;
+  profit?: string | null;
+  profitType?: ValidatedFigures["profitLoss"]["type"];
+  margin?: string | null;
+  employees?: number | null;
+  previousEmployees?: number | null;
+  employeeGrowth?: string | null;
+  cash?: string | null;
+}
+
+// A consistent report: $1bn revenue up 10%, 10% margin, 2,000 staff up 5%
+function figures(overrides: FigureOverrides = {}): ValidatedFigures {
+  const pick = <K extends keyof FigureOverrides>(key: K, fallback: FigureOverrides[K]) =>
+    key in overrides ? overrides[key] : fallback;
+
+  return {
+    revenue: { growth: pick("revenueGrowth", "10%") ?? null },
+    profitLoss: { type: pick("profitType", "profit")!, margin: pick("margin", "10%") ?? null },
+    employees: {
+      total: pick("employees", 2_000) ?? null,
+      previousYear: pick("previousEmployees", 1_905) ?? null,
+      growth: pick("employeeGrowth", "5%") ?? null,
+    },
+    normalized: {
+      revenue: {
+        current: normalizeAmount(pick("revenue", "$1 billion")),
+        previous: normalizeAmount(pick("previousRevenue", "$909 million")),
+      },
+      profitLoss: { amount: normalizeAmount(pick("profit", "$100 million")) },
+      assets: { total: null },
+      personnelCosts: { amount: null },
+      operatingExpenses: { amount: null },
+      researchAndDevelopment: { amount: null },
+      cash: { amount: normalizeAmount(pick("cash", null)) },
+      debt: { amount: null },
+    },
+  };
+}
+
+const ruleIds = (input: ValidatedFigures) =>
+  validateFinancialFigures(input).flags.map((flag) => flag.rule);
+
+describe("validateFinancialFigures", () => {
+  it("passes a consistent set of figures", () => {
+    expect(validateFinancialFigures(figures())).toEqual({
+      revenueReasonable: true,
+      profitMarginReasonable: true,
+      crossCheckPassed: true,
+      flaggedForReview: false,
+      flags: [],
+    });
+  });
+
+  it("flags missing revenue", () => {
+    const result = validateFinancialFigures(figures({ revenue: null }));
+    expect(result.flags.map((flag) => flag.rule)).toEqual(["revenue_missing"]);
+    expect(result.revenueReasonable).toBe(false);
+    expect(result.flaggedForReview).toBe(true);
+  });
+
+  it("flags a profit larger than revenue as an error", () => {
+    const result = validateFinancialFigures(figures({ profit: "$2 billion", margin: null }));
+    expect(result.flags).toContainEqual(
+      expect.objectContaining({ rule: "profit_exceeds_revenue", severity: "error" }),
+    );
+    expect(result.profitMarginReasonable).toBe(false);
+  });
+
+  it("flags a negative amount reported as a profit", () => {
+    expect(ruleIds(figures({ profit: "-$100 million", margin: null }))).toEqual([
+      "profit_sign_mismatch",
+    ]);
+  });
+
+  it("checks the stated margin against profit / revenue, allowing an unsigned loss margin", () => {
+    expect(ruleIds(figures({ margin: "25%" }))).toEqual(["margin_mismatch"]);
+    expect(ruleIds(figures({ margin: "10.8%" }))).toEqual([]);
+    expect(
+      ruleIds(figures({ profit: "-$100 million", profitType: "loss", margin: "10%" })),
+    ).toEqual([]);
+  });
+
+  it("checks stated revenue and headcount growth", () => {
+    expect(ruleIds(figures({ revenueGrowth: "30%" }))).toEqual(["revenue_growth_mismatch"]);
+    expect(ruleIds(figures({ employeeGrowth: "-5%" }))).toEqual(["employee_growth_mismatch"]);
+  });
+
+  it("flags implausible revenue per employee, converting to USD first", () => {
+    expect(ruleIds(figures({ employees: 2_000_000, previousEmployees: null }))).toEqual([
+      "implausible_revenue_per_employee",
+    ]);
+    // ₹1,000 crore over 2,000 staff is about $60k each
+    expect(
+      ruleIds(
+        figures({
+          revenue: "Rs. 1,000 crore",
+          previousRevenue: "Rs. 909 crore",
+          profit: "Rs. 100 crore",
+        }),
+      ),
+    ).toEqual([]);
+  });
+
+  it("flags amounts in different currencies, naming the odd ones out", () => {
+    const result = validateFinancialFigures(figures({ cash: "€50 million" }));
+    expect(result.flags).toEqual([
+      expect.objectContaining({ rule: "currency_mismatch", fields: ["cash.amount"] }),
+    ]);
+  });
+
+  it("runs only the rules it is given", () => {
+    const result = validateFinancialFigures(figures({ revenue: null }), []);
+    expect(result.flags).toEqual([]);
+    expect(result.crossCheckPassed).toBe(true);
+  });
+});
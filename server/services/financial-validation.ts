@@ -0,0 +1,248 @@
+import type { NormalizedAmount } from "./financial-normalizer";
+
+// Deterministic checks on the Stage 1 figures. The model still reports its
+// own validation notes, but the pass/fail fields are derived from these rules.
+
+export type ValidationSeverity = "info" | "warning" | "error";
+
+export interface ValidationFlag {
+  rule: string;
+  severity: ValidationSeverity;
+  message: string;
+  fields: string[]; // FinancialMetrics paths the flag is about
+}
+
+// The parts of FinancialMetrics the rules read; kept structural so rules
+// don't depend on the extractor module
+export interface ValidatedFigures {
+  revenue: { growth: string | null };
+  profitLoss: { type: "profit" | "loss" | "breakeven"; margin: string | null };
+  employees: { total: number | null; previousYear: number | null; growth: string | null };
+  normalized: {
+    revenue: { current: NormalizedAmount | null; previous: NormalizedAmount | null };
+    profitLoss: { amount: NormalizedAmount | null };
+    assets: { total: NormalizedAmount | null };
+    personnelCosts: { amount: NormalizedAmount | null };
+    operatingExpenses: { amount: NormalizedAmount | null };
+    researchAndDevelopment: { amount: NormalizedAmount | null };
+    cash: { amount: NormalizedAmount | null };
+    debt: { amount: NormalizedAmount | null };
+  };
+}
+
+export interface ValidationRule {
+  id: string;
+  description: string;
+  check: (figures: ValidatedFigures) => Omit<ValidationFlag, "rule"> | null;
+}
+
+// How far a stated percentage may drift from the one computed from the
+// amounts, in percentage points, before it's flagged
+const PERCENT_TOLERANCE = 1;
+
+// Revenue per employee outside this band (in USD) usually means a scale or
+// unit error rather than a real business
+const MIN_REVENUE_PER_EMPLOYEE_USD = 5_000;
+const MAX_REVENUE_PER_EMPLOYEE_USD = 20_000_000;
+
+// Rough USD value of one unit, only good enough for order-of-magnitude checks
+const APPROX_USD_RATES: Record<string, number> = {
+  USD: 1, EUR: 1.1, GBP: 1.27, CHF: 1.12, JPY: 0.0067, CNY: 0.14, HKD: 0.128, TWD: 0.031,
+  KRW: 0.00075, INR: 0.012, SGD: 0.74, MYR: 0.21, IDR: 0.000063, PHP: 0.018, THB: 0.028,
+  VND: 0.00004, AUD: 0.66, NZD: 0.6, CAD: 0.73, SEK: 0.095, NOK: 0.093, DKK: 0.145,
+  ZAR: 0.054, BRL: 0.19, MXN: 0.055, AED: 0.27, SAR: 0.27,
+};
+
+// "7.5%", "-3.2 %" or "7.5" to 7.5
+function parsePercent(text: string | null): number | null {
+  const match = text?.match(/[-−–]?\d+(?:\.\d+)?/);
+  return match ? Number(match[0].replace(/[−–]/, "-")) : null;
+}
+
+const percentChange = (current: number, previous: number) =>
+  ((current - previous) / Math.abs(previous)) * 100;
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+export const FINANCIAL_VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: "revenue_missing",
+    description: "The report's revenue wasn't extracted",
+    check: ({ normalized }) =>
+      normalized.revenue.current
+        ? null
+        : {
+            severity: "warning",
+            message: "Revenue could not be extracted, so ratios and cross-checks are unavailable",
+            fields: ["revenue.current"],
+          },
+  },
+  {
+    id: "profit_exceeds_revenue",
+    description: "A profit can't be larger than revenue",
+    check: ({ normalized }) => {
+      const revenue = normalized.revenue.current?.value;
+      const profit = normalized.profitLoss.amount?.value;
+      return revenue && profit && profit > revenue
+        ? {
+            severity: "error",
+            message: "Extracted profit exceeds revenue - one of the figures is likely mis-scaled or misread",
+            fields: ["profitLoss.amount", "revenue.current"],
+          }
+        : null;
+    },
+  },
+  {
+    id: "profit_sign_mismatch",
+    description: "The profit/loss type should agree with the amount's sign",
+    check: ({ profitLoss, normalized }) => {
+      const amount = normalized.profitLoss.amount?.value;
+      if (amount === undefined || amount === 0) return null;
+      return profitLoss.type === "profit" && amount < 0
+        ? {
+            severity: "warning",
+            message: "Reported as a profit but the amount is negative",
+            fields: ["profitLoss.type", "profitLoss.amount"],
+          }
+        : null;
+    },
+  },
+  {
+    id: "margin_mismatch",
+    description: "The stated margin should match profit ÷ revenue",
+    check: ({ profitLoss, normalized }) => {
+      const stated = parsePercent(profitLoss.margin);
+      const revenue = normalized.revenue.current;
+      const profit = normalized.profitLoss.amount;
+      if (stated === null || !revenue || !profit || revenue.value <= 0) return null;
+      if (revenue.currency !== profit.currency) return null;
+
+      const computed = (profit.value / revenue.value) * 100;
+      // Some reports state a loss margin without its sign
+      const matches =
+        Math.abs(stated - computed) <= PERCENT_TOLERANCE ||
+        Math.abs(-Math.abs(stated) - computed) <= PERCENT_TOLERANCE;
+      return matches
+        ? null
+        : {
+            severity: "warning",
+            message: `Stated margin ${formatPercent(stated)} doesn't match profit ÷ revenue (${formatPercent(computed)})`,
+            fields: ["profitLoss.margin", "profitLoss.amount", "revenue.current"],
+          };
+    },
+  },
+  {
+    id: "revenue_growth_mismatch",
+    description: "Stated revenue growth should match current vs previous revenue",
+    check: ({ revenue, normalized }) => {
+      const stated = parsePercent(revenue.growth);
+      const current = normalized.revenue.current;
+      const previous = normalized.revenue.previous;
+      if (stated === null || !current || !previous || previous.value === 0) return null;
+      if (current.currency !== previous.currency) return null;
+
+      const computed = percentChange(current.value, previous.value);
+      return Math.abs(stated - computed) <= PERCENT_TOLERANCE
+        ? null
+        : {
+            severity: "warning",
+            message: `Stated revenue growth ${formatPercent(stated)} doesn't match current vs previous revenue (${formatPercent(computed)})`,
+            fields: ["revenue.growth", "revenue.current", "revenue.previous"],
+          };
+    },
+  },
+  {
+    id: "employee_growth_mismatch",
+    description: "Stated headcount growth should match current vs previous employees",
+    check: ({ employees }) => {
+      const stated = parsePercent(employees.growth);
+      if (stated === null || !employees.total || !employees.previousYear) return null;
+
+      const computed = percentChange(employees.total, employees.previousYear);
+      return Math.abs(stated - computed) <= PERCENT_TOLERANCE
+        ? null
+        : {
+            severity: "warning",
+            message: `Stated headcount growth ${formatPercent(stated)} doesn't match current vs previous employees (${formatPercent(computed)})`,
+            fields: ["employees.growth", "employees.total", "employees.previousYear"],
+          };
+    },
+  },
+  {
+    id: "implausible_revenue_per_employee",
+    description: "Revenue per employee should be within a realistic range",
+    check: ({ employees, normalized }) => {
+      const revenue = normalized.revenue.current;
+      const rate = revenue && APPROX_USD_RATES[revenue.currency];
+      if (!revenue || !rate || !employees.total || revenue.value <= 0) return null;
+
+      const perEmployeeUsd = (revenue.value * rate) / employees.total;
+      if (perEmployeeUsd >= MIN_REVENUE_PER_EMPLOYEE_USD && perEmployeeUsd <= MAX_REVENUE_PER_EMPLOYEE_USD) {
+        return null;
+      }
+      return {
+        severity: "warning",
+        message: `${employees.total.toLocaleString("en-US")} employees is implausible for this revenue (about $${Math.round(perEmployeeUsd).toLocaleString("en-US")} per employee) - check the scale of either figure`,
+        fields: ["employees.total", "revenue.current"],
+      };
+    },
+  },
+  {
+    id: "currency_mismatch",
+    description: "All amounts from one report should share a currency",
+    check: ({ normalized }) => {
+      const amounts: [string, NormalizedAmount | null][] = [
+        ["revenue.current", normalized.revenue.current],
+        ["revenue.previous", normalized.revenue.previous],
+        ["profitLoss.amount", normalized.profitLoss.amount],
+        ["assets.total", normalized.assets.total],
+        ["personnelCosts.amount", normalized.personnelCosts.amount],
+        ["operatingExpenses.amount", normalized.operatingExpenses.amount],
+        ["researchAndDevelopment.amount", normalized.researchAndDevelopment.amount],
+        ["cash.amount", normalized.cash.amount],
+        ["debt.amount", normalized.debt.amount],
+      ];
+      const present = amounts.filter((entry): entry is [string, NormalizedAmount] => entry[1] !== null);
+      const currencies = Array.from(new Set(present.map(([, amount]) => amount.currency)));
+      if (currencies.length <= 1) return null;
+
+      const reference = present[0][1].currency;
+      return {
+        severity: "warning",
+        message: `Amounts are in different currencies (${currencies.join(", ")})`,
+        fields: present.filter(([, amount]) => amount.currency !== reference).map(([field]) => field),
+      };
+    },
+  },
+];
+
+export interface DerivedValidation {
+  revenueReasonable: boolean;
+  profitMarginReasonable: boolean;
+  crossCheckPassed: boolean;
+  flaggedForReview: boolean;
+  flags: ValidationFlag[];
+}
+
+const isConcern = (flag: ValidationFlag) => flag.severity !== "info";
+const touches = (flag: ValidationFlag, prefix: string) =>
+  flag.fields.some((field) => field.startsWith(prefix));
+
+export function validateFinancialFigures(
+  figures: ValidatedFigures,
+  rules: ValidationRule[] = FINANCIAL_VALIDATION_RULES,
+): DerivedValidation {
+  const flags = rules.flatMap((rule) => {
+    const flag = rule.check(figures);
+    return flag ? [{ rule: rule.id, ...flag }] : [];
+  });
+  const concerns = flags.filter(isConcern);
+
+  return {
+    revenueReasonable: !concerns.some((flag) => touches(flag, "revenue.")),
+    profitMarginReasonable: !concerns.some((flag) => touches(flag, "profitLoss.")),
+    crossCheckPassed: concerns.length === 0,
+    flaggedForReview: concerns.length > 0,
+    flags,
+  };
+}
@@ -1,13 +1,13 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { readFileSync } from "fs";
+import { callLLM } from "./llm-client";
+import { DocumentHandle } from "./document-handle";
+import { UsageLedger } from "./llm-usage";
+import { getPrompt } from "../prompts";
 import {
   analyzeDocumentPipeline,
   analyzeDocumentWithFallback,
   PipelineResult,
 } from "./analysis-pipeline";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
 // Keep existing interfaces for backward compatibility
 export interface HRInsight {
   dataPoint: string;
@@ -63,67 +63,6 @@ export interface EnhancedAnalysisResult extends HRAnalysisResult {
   };
 }
 
-// Legacy prompt for fallback (your original working prompt)
-const LEGACY_HR_ANALYSIS_PROMPT = `You are analyzing an annual report to help a solution advisor prepare for a discovery call with an HR leader. Extract key insights that demonstrate business understanding and create talking points.
-
-**CRITICAL FINANCIAL EXTRACTION REQUIREMENTS:**
-
-Before analyzing HR insights, you must first extract and validate ALL financial metrics with extreme precision. Use these rules:
-
-**REVENUE EXTRACTION RULES:**
-- Look for: "revenue", "total revenue", "net revenue", "sales", "net sales", "total sales"
-- Common formats: "Revenue: $4.2B", "revenue grew to $4.2 billion", "achieved revenue of $4.2B", "revenue increased 23% to $4.2B"
-- Extract BOTH current year and previous year when available
-- If only percentage growth given, extract the percentage and base amount separately
-
-**PROFIT/LOSS EXTRACTION RULES:**
-- PROFIT indicators: "net income", "profit", "operating income", "earnings", "net earnings"
-- LOSS indicators: "net loss", "operating loss", "loss", "deficit", "(loss)"
-- CRITICAL: If you see "loss", "deficit", or negative indicators, mark as LOSS not profit
-- Extract exact amounts and note if it's profit or loss
-
-**BUSINESS LOGIC VALIDATION:**
-- If profit > 50% of revenue, mark confidence as "low" and flag for review
-- If profit = revenue, mark as "impossible - likely data extraction error"
-- If loss is present, profit should be null or negative
-- Revenue should always be positive and larger than profit
-
-**STRUCTURED FINANCIAL OUTPUT:**
-Always include this exact JSON structure at the beginning of your response:
-
-{
-  "financialMetrics": {
-    "revenue": {
-      "current": "4.2B" | null,
-      "previous": "3.4B" | null,
-      "growth": "23%" | null,
-      "currency": "USD" | null,
-      "confidence": "high" | "medium" | "low",
-      "sourceText": "exact quote from document",
-      "extractionMethod": "direct_statement" | "growth_narrative" | "calculated"
-    },
-    "profitLoss": {
-      "type": "profit" | "loss" | "breakeven",
-      "amount": "500M" | null,
-      "margin": "12%" | null,
-      "confidence": "high" | "medium" | "low",
-      "sourceText": "exact quote from document",
-      "validationFlags": ["profit_exceeds_50_percent"] | []
-    },
-    "validation": {
-      "revenueReasonable": true | false,
-      "profitMarginReasonable": true | false,
-      "crossCheckPassed": true | false,
-      "flaggedForReview": true | false,
-      "notes": "Any validation concerns or extraction challenges"
-    }
-  }
-}
-
-[Continue with your original HR analysis instructions...]
-
-Focus on insights related to HR administration, payroll operations, workforce scheduling and management, talent acquisition and development, employee learning programs, people analytics and reporting, and regulatory compliance.`;
-
 // Enhanced JSON extraction (from your original code)
 function findBalancedJSON(text: string): string | null {
   let braceCount = 0;
@@ -219,6 +158,7 @@ function validateResponse(parsed: any): HRAnalysisResult {
 export async function analyzeDocumentWithGemini(
   filePath: string,
   useEnhancedPipeline: boolean = true,
+  usage: UsageLedger = new UsageLedger(),
 ): Promise<EnhancedAnalysisResult> {
   console.log(
     `Starting document analysis with ${useEnhancedPipeline ? "enhanced pipeline" : "legacy approach"}`,
@@ -227,7 +167,7 @@ export async function analyzeDocumentWithGemini(
   if (useEnhancedPipeline) {
     try {
       // Try enhanced multi-stage pipeline first
-      const pipelineResult = await analyzeDocumentWithFallback(filePath);
+      const pipelineResult = await analyzeDocumentWithFallback(filePath, usage);
 
       // Transform to legacy format for backward compatibility
       const result: EnhancedAnalysisResult = {
@@ -261,35 +201,22 @@ export async function analyzeDocumentWithGemini(
   }
 
   // Legacy approach (your original working code)
-  return await analyzeDocumentLegacy(filePath);
+  return await analyzeDocumentLegacy(filePath, usage);
 }
 
 // Legacy function (keep for backward compatibility and fallback)
 async function analyzeDocumentLegacy(
   filePath: string,
+  usage: UsageLedger,
 ): Promise<EnhancedAnalysisResult> {
+  const document = new DocumentHandle(filePath, undefined, usage);
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-    const fileBuffer = readFileSync(filePath);
-    const base64Data = fileBuffer.toString("base64");
-
-    const mimeType = filePath.toLowerCase().endsWith(".pdf")
-      ? "application/pdf"
-      : "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-
-    const result = await model.generateContent([
-      LEGACY_HR_ANALYSIS_PROMPT,
-      {
-        inlineData: {
-          data: base64Data,
-          mimeType: mimeType,
-        },
-      },
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
+    const { text } = await callLLM({
+      stage: "legacy",
+      prompt: getPrompt("legacy").template,
+      document: await document.resolve(),
+      usage: document.usage,
+    });
 
     const jsonString = extractJSONRobust(text);
     const parsedResult = JSON.parse(jsonString);
@@ -326,6 +253,8 @@ async function analyzeDocumentLegacy(
     throw new Error(
       `Failed to analyze document: ${error instanceof Error ? error.message : "Unknown error"}`,
     );
+  } finally {
+    await document.release();
   }
 }
 
@@ -0,0 +1,166 @@
+import type { NormalizedAmount, NormalizedFinancials } from "./financial-normalizer";
+
+// Workforce KPIs computed from the extracted figures rather than left to the
+// model's prose, so every value can be traced back to its inputs
+
+export type HRKpiId =
+  | "revenuePerEmployee"
+  | "personnelCostRatio"
+  | "headcountGrowth"
+  | "profitPerEmployee";
+
+export interface KpiInput {
+  name: string;
+  field: string; // path in FinancialMetrics the value was read from
+  value: number | null;
+  originalText: string | null; // the amount as the model reported it
+}
+
+export interface HRKpi {
+  id: HRKpiId;
+  label: string;
+  value: number | null; // null when an input is missing or unusable
+  unit: "currency" | "percentage";
+  currency: string | null; // set for currency KPIs
+  formula: string;
+  inputs: KpiInput[];
+  note: string | null; // why the value couldn't be computed
+}
+
+interface KpiSourceFields {
+  employees: { total: number | null; previousYear: number | null };
+  normalized: NormalizedFinancials;
+}
+
+const amountInput = (name: string, field: string, amount: NormalizedAmount | null): KpiInput => ({
+  name,
+  field,
+  value: amount?.value ?? null,
+  originalText: amount?.originalText ?? null,
+});
+
+const countInput = (name: string, field: string, value: number | null): KpiInput => ({
+  name,
+  field,
+  value,
+  originalText: value === null ? null : String(value),
+});
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+function missingNote(inputs: KpiInput[]): string | null {
+  const missing = inputs.filter((input) => input.value === null).map((input) => input.name);
+  return missing.length > 0 ? `Not reported: ${missing.join(", ")}` : null;
+}
+
+function perEmployee(
+  id: HRKpiId,
+  label: string,
+  amountName: string,
+  field: string,
+  amount: NormalizedAmount | null,
+  employees: number | null,
+): HRKpi {
+  const inputs = [
+    amountInput(amountName, field, amount),
+    countInput("Employees", "employees.total", employees),
+  ];
+  const note = missingNote(inputs) ?? (employees === 0 ? "Employee count is zero" : null);
+
+  return {
+    id,
+    label,
+    value: note || !amount || !employees ? null : round(amount.value / employees, 0),
+    unit: "currency",
+    currency: amount?.currency ?? null,
+    formula: `${amountName} ÷ Employees`,
+    inputs,
+    note,
+  };
+}
+
+function personnelCostRatio(metrics: KpiSourceFields): HRKpi {
+  const revenue = metrics.normalized.revenue.current;
+  const personnelCosts = metrics.normalized.personnelCosts.amount;
+  const inputs = [
+    amountInput("Personnel costs", "personnelCosts.amount", personnelCosts),
+    amountInput("Revenue", "revenue.current", revenue),
+  ];
+
+  let note = missingNote(inputs);
+  if (!note && revenue && personnelCosts) {
+    if (revenue.value <= 0) {
+      note = "Revenue is not positive";
+    } else if (revenue.currency !== personnelCosts.currency) {
+      note = `Currencies differ (${personnelCosts.currency} vs ${revenue.currency})`;
+    }
+  }
+
+  return {
+    id: "personnelCostRatio",
+    label: "Personnel Cost % of Revenue",
+    value: note || !revenue || !personnelCosts ? null : round((personnelCosts.value / revenue.value) * 100, 1),
+    unit: "percentage",
+    currency: null,
+    formula: "Personnel costs ÷ Revenue × 100",
+    inputs,
+    note,
+  };
+}
+
+// Prefers the headline prior-year count; falls back to the multi-year summary
+function headcountGrowth(metrics: KpiSourceFields): HRKpi {
+  const years = metrics.normalized.history.years.filter((year) => year.employees !== null);
+  const fromHistory = metrics.employees.previousYear === null && years.length >= 2;
+
+  const current = fromHistory ? years[years.length - 1].employees : metrics.employees.total;
+  const previous = fromHistory ? years[years.length - 2].employees : metrics.employees.previousYear;
+  const inputs = fromHistory
+    ? [
+        countInput("Employees", `history.years[${years[years.length - 1].fiscalYear}].employees`, current),
+        countInput("Prior-year employees", `history.years[${years[years.length - 2].fiscalYear}].employees`, previous),
+      ]
+    : [
+        countInput("Employees", "employees.total", current),
+        countInput("Prior-year employees", "employees.previousYear", previous),
+      ];
+  const note = missingNote(inputs) ?? (previous === 0 ? "Prior-year employee count is zero" : null);
+
+  return {
+    id: "headcountGrowth",
+    label: "Headcount Growth",
+    value: note || current === null || !previous ? null : round(((current - previous) / previous) * 100, 1),
+    unit: "percentage",
+    currency: null,
+    formula: "(Employees − Prior-year employees) ÷ Prior-year employees × 100",
+    inputs,
+    note,
+  };
+}
+
+export function computeHRKpis(metrics: KpiSourceFields): HRKpi[] {
+  const { normalized, employees } = metrics;
+  return [
+    perEmployee(
+      "revenuePerEmployee",
+      "Revenue per Employee",
+      "Revenue",
+      "revenue.current",
+      normalized.revenue.current,
+      employees.total,
+    ),
+    personnelCostRatio(metrics),
+    headcountGrowth(metrics),
+    perEmployee(
+      "profitPerEmployee",
+      "Profit per Employee",
+      "Net profit/loss",
+      "profitLoss.amount",
+      normalized.profitLoss.amount,
+      employees.total,
+    ),
+  ];
+}
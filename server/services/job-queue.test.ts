@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { JobQueue, type JobHandler, type JobQueueOptions } from "./job-queue";
+
+const OPTIONS: JobQueueOptions = {
+  concurrency: 1,
+  pollIntervalMs: 100,
+  retryBaseDelayMs: 1_000,
+  maxAttempts: 3,
+  leaseMs: 60_000,
+};
+
+let storage: MemStorage;
+let queue: JobQueue | undefined;
+
+function startQueue(
+  handler: JobHandler,
+  onFinalFailure?: (job: Job, error: unknown) => Promise<void>,
+  options: Partial<JobQueueOptions> = {},
+): Promise<JobQueue> {
+  queue = new JobQueue(storage, handler, onFinalFailure, { ...OPTIONS, ...options });
+  return queue.start().then(() => queue!);
+}
+
+async function jobFor(uploadId: number): Promise<Job> {
+  const [job] = await storage.getJobsByUpload(uploadId);
+  return job;
+}
+
+// Runs any jobs the queue has claimed; the storage calls only chain promises
+const settle = () => vi.advanceTimersByTimeAsync(1);
+
+class PermanentError extends Error {
+  readonly retryable = false;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  storage = new MemStorage();
+  for (const method of ["log", "warn", "error"] as const) {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  }
+});
+
+afterEach(() => {
+  queue?.stop();
+  queue = undefined;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("JobQueue", () => {
+  it("marks a job that succeeds as succeeded", async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    await (await startQueue(handler)).enqueue(1, "analyze");
+    await settle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await jobFor(1)).toMatchObject({ status: "succeeded", attempts: 1, lastError: null });
+  });
+
+  it("retries with exponential backoff until the job succeeds", async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockResolvedValue(undefined);
+    const start = Date.now();
+    await (await startQueue(handler)).enqueue(1, "analyze");
+    await settle();
+
+    expect(await jobFor(1)).toMatchObject({ status: "queued", attempts: 1, lastError: "rate limited" });
+    expect((await jobFor(1)).runAt.getTime() - start).toBe(1_000);
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect((await jobFor(1)).runAt.getTime() - start).toBe(1_000 + 2_000);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await jobFor(1)).toMatchObject({ status: "succeeded", attempts: 3, lastError: null });
+  });
+
+  it("fails the job and calls the final-failure hook once attempts run out", async () => {
+    const error = new Error("model unavailable");
+    const handler = vi.fn().mockRejectedValue(error);
+    const onFinalFailure = vi.fn().mockResolvedValue(undefined);
+    await (await startQueue(handler, onFinalFailure)).enqueue(1, "analyze");
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await jobFor(1)).toMatchObject({
+      status: "failed",
+      attempts: 3,
+      lastError: "model unavailable",
+    });
+    expect(onFinalFailure).toHaveBeenCalledTimes(1);
+    expect(onFinalFailure).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), error);
+  });
+
+  it("doesn't retry errors marked not retryable, including wrapped ones", async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new PermanentError("unreadable document"))
+      .mockRejectedValueOnce(
+        new Error("stage failed", { cause: new PermanentError("unreadable document") }),
+      );
+    const onFinalFailure = vi.fn().mockResolvedValue(undefined);
+    const started = await startQueue(handler, onFinalFailure);
+    await started.enqueue(1, "analyze");
+    await started.enqueue(2, "analyze");
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await jobFor(1)).toMatchObject({ status: "failed", attempts: 1 });
+    expect(await jobFor(2)).toMatchObject({ status: "failed", attempts: 1, lastError: "stage failed" });
+    expect(onFinalFailure).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps processing when recording a failure throws", async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new PermanentError("unreadable document"))
+      .mockResolvedValue(undefined);
+    const onFinalFailure = vi.fn().mockRejectedValue(new Error("database down"));
+    const started = await startQueue(handler, onFinalFailure);
+    await started.enqueue(1, "analyze");
+    await started.enqueue(2, "analyze");
+    await settle();
+
+    expect(onFinalFailure).toHaveBeenCalledTimes(1);
+    expect(await jobFor(2)).toMatchObject({ status: "succeeded" });
+  });
+
+  it("runs no more jobs at once than its concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const handler = vi.fn(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      running--;
+    });
+    const started = await startQueue(handler, undefined, { concurrency: 2 });
+    for (const uploadId of [1, 2, 3, 4, 5]) await started.enqueue(uploadId, "analyze");
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("only recovers running jobs that stopped heartbeating", async () => {
+    const abandoned = await storage.createJob({ uploadId: 1, type: "analyze" });
+    await storage.claimNextJob(new Date());
+    await vi.advanceTimersByTimeAsync(OPTIONS.leaseMs + 1);
+    const live = await storage.createJob({ uploadId: 2, type: "analyze" });
+    await storage.claimNextJob(new Date());
+
+    const handler = vi.fn().mockResolvedValue(undefined);
+    await startQueue(handler);
+    await settle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: abandoned.id, attempts: 2 }));
+    expect(await jobFor(live.uploadId)).toMatchObject({ status: "running", attempts: 1 });
+  });
+
+  it("heartbeats a long job so it isn't recovered while it runs", async () => {
+    let finish!: () => void;
+    const handler = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    await (await startQueue(handler)).enqueue(1, "analyze");
+    await vi.advanceTimersByTimeAsync(OPTIONS.leaseMs * 3);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await jobFor(1)).toMatchObject({ status: "running", attempts: 1 });
+
+    finish();
+    await settle();
+    expect(await jobFor(1)).toMatchObject({ status: "succeeded" });
+  });
+});
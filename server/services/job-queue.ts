@@ -0,0 +1,177 @@
+import type { Job } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { PipelineStage } from "./progress-events";
+
+// "rerun:<stage>" regenerates one stage of the current analysis
+export type JobType = "analyze" | "reanalyze" | `rerun:${PipelineStage}`;
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  retryBaseDelayMs: number;
+  maxAttempts: number;
+  leaseMs: number; // a running job not heartbeated for this long is presumed orphaned
+}
+
+/**
+ * Queue configuration, overridable through the environment
+ */
+export const JOB_QUEUE_CONFIG: JobQueueOptions = {
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || "2"),
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || "1000"),
+  retryBaseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || "5000"),
+  maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "3"),
+  leaseMs: parseInt(process.env.JOB_LEASE_MS || "120000"),
+};
+
+// Errors can mark themselves, or a cause they wrap, as not worth retrying
+function isRetryable(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as { retryable?: boolean }).retryable === false) return false;
+  }
+  return true;
+}
+
+/**
+ * Persistent job queue backed by IStorage. Jobs move through
+ * queued → running → succeeded | failed, and failed attempts are
+ * re-queued with exponential backoff until maxAttempts is reached. A running
+ * job is heartbeated so that other workers sharing the table only recover it
+ * once the process running it has gone away.
+ */
+export class JobQueue {
+  private activeJobs = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private storage: IStorage,
+    private handler: JobHandler,
+    private onFinalFailure?: (job: Job, error: unknown) => Promise<void>,
+    private options: JobQueueOptions = JOB_QUEUE_CONFIG,
+  ) {}
+
+  async enqueue(uploadId: number, type: JobType): Promise<Job> {
+    const job = await this.storage.createJob({
+      uploadId,
+      type,
+      maxAttempts: this.options.maxAttempts,
+    });
+    console.log(`Job ${job.id} queued: ${type} upload ${uploadId}`);
+    void this.poll();
+    return job;
+  }
+
+  /**
+   * Re-queues jobs whose worker stopped heartbeating, then starts polling.
+   * Recovery repeats every lease, for workers that die while this one runs.
+   */
+  async start(): Promise<void> {
+    await this.recoverOrphanedJobs();
+
+    console.log("Job queue started:", {
+      concurrency: this.options.concurrency,
+      maxAttempts: this.options.maxAttempts,
+    });
+    this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    this.recoveryTimer = setInterval(() => void this.recoverOrphanedJobs(), this.options.leaseMs);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+  }
+
+  private async recoverOrphanedJobs(): Promise<void> {
+    try {
+      const recovered = await this.storage.requeueStaleJobs(new Date(Date.now() - this.options.leaseMs));
+      if (recovered.length > 0) {
+        console.log(
+          `Recovered ${recovered.length} orphaned job(s):`,
+          recovered.map((job) => job.id),
+        );
+      }
+    } catch (error) {
+      console.error("Job queue recovery failed:", error);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.activeJobs < this.options.concurrency) {
+        const job = await this.storage.claimNextJob(new Date());
+        if (!job) break;
+
+        this.activeJobs++;
+        void this.run(job)
+          .catch((error) => console.error(`Job ${job.id} bookkeeping failed:`, error))
+          .finally(() => {
+            this.activeJobs--;
+            void this.poll();
+          });
+      }
+    } catch (error) {
+      console.error("Job queue poll failed:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    console.log(`Job ${job.id} running (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const heartbeat = setInterval(() => {
+      this.storage
+        .heartbeatJob(job.id)
+        .catch((error) => console.warn(`Job ${job.id} heartbeat failed:`, error));
+    }, this.options.leaseMs / 3);
+
+    try {
+      await this.handler(job);
+      await this.storage.updateJob(job.id, { status: "succeeded", lastError: null });
+      console.log(`Job ${job.id} succeeded`);
+    } catch (error) {
+      await this.recordFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // A storage outage or a failing onFinalFailure hook is logged rather than
+  // thrown, so bookkeeping can't take the process down
+  private async recordFailure(job: Job, error: unknown): Promise<void> {
+    try {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < job.maxAttempts && isRetryable(error)) {
+        const delay = this.options.retryBaseDelayMs * 2 ** (job.attempts - 1);
+        console.warn(`Job ${job.id} failed, retrying in ${delay}ms:`, message);
+        await this.storage.updateJob(job.id, {
+          status: "queued",
+          runAt: new Date(Date.now() + delay),
+          lastError: message,
+        });
+        return;
+      }
+
+      console.error(`Job ${job.id} failed after ${job.attempts} attempts:`, message);
+      await this.storage.updateJob(job.id, { status: "failed", lastError: message });
+      await this.onFinalFailure?.(job, error);
+    } catch (bookkeepingError) {
+      console.error(`Job ${job.id}: recording the failure failed:`, bookkeepingError);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+import {
+  getLLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMStage,
+} from "./llm-provider";
+
+// Every model call goes through callLLM, which classifies failures, retries
+// the ones that can succeed on a later attempt and bounds how long a call may
+// hang. The final class is stored on the upload so the UI can say what went wrong.
+
+export type LLMErrorClass =
+  | "rate_limit" // too many requests right now; retried after a backoff
+  | "quota" // daily or billing quota exhausted; retrying won't help today
+  | "safety_block" // the provider refused to answer for this document
+  | "invalid_output" // the response didn't match the stage schema, even after repair
+  | "transient" // 5xx, network errors
+  | "timeout" // a call, or the whole analysis, took too long
+  | "unknown";
+
+// Retried within the call; the others fail it straight away
+const RETRYABLE_CLASSES: LLMErrorClass[] = ["rate_limit", "transient", "timeout"];
+
+// Failures a later job attempt can't get past either
+const PERMANENT_CLASSES: LLMErrorClass[] = ["quota", "safety_block"];
+
+export interface LLMClientOptions {
+  callTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  analysisTimeoutMs: number;
+}
+
+/**
+ * Client configuration, overridable through the environment
+ */
+export const LLM_CLIENT_CONFIG: LLMClientOptions = {
+  callTimeoutMs: parseInt(process.env.LLM_CALL_TIMEOUT_MS || "180000"),
+  maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3"),
+  retryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || "2000"),
+  retryMaxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || "60000"),
+  analysisTimeoutMs: parseInt(process.env.ANALYSIS_TIMEOUT_MS || "900000"),
+};
+
+/**
+ * A failed model call, classified. `retryable` is read by the job queue, which
+ * doesn't re-run an analysis that failed for a reason retrying can't fix.
+ */
+export class LLMError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    public readonly stage: LLMStage,
+    public readonly errorClass: LLMErrorClass,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "LLMError";
+    this.retryable = !PERMANENT_CLASSES.includes(errorClass);
+  }
+}
+
+/**
+ * Raised when a whole analysis runs past ANALYSIS_TIMEOUT_MS
+ */
+export class AnalysisTimeoutError extends Error {
+  readonly retryable = true;
+
+  constructor(timeoutMs: number) {
+    super(`Analysis did not finish within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "AnalysisTimeoutError";
+  }
+}
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"];
+
+// Gemini reports every 429 as an exceeded quota; only the per-day quotas
+// are ones a retry within the job can't get past
+function isDailyQuota(error: GoogleGenerativeAIFetchError): boolean {
+  return (error.errorDetails ?? []).some((detail) =>
+    JSON.stringify(detail).match(/PerDay|per day/i),
+  );
+}
+
+export function classifyLLMError(error: unknown): LLMErrorClass {
+  if (error instanceof LLMError) return error.errorClass;
+  if (error instanceof AnalysisTimeoutError) return "timeout";
+  if (error instanceof GoogleGenerativeAIAbortError) return "timeout";
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const status = error.status ?? 0;
+    if (status === 429) return isDailyQuota(error) ? "quota" : "rate_limit";
+    if (status === 403 && /quota|billing/i.test(error.message)) return "quota";
+    if (status === 408 || status >= 500) return "transient";
+    return "unknown";
+  }
+
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return /blocked|SAFETY|PROHIBITED_CONTENT|RECITATION/.test(error.message) ? "safety_block" : "unknown";
+  }
+
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code ?? "";
+    if (NETWORK_ERROR_CODES.includes(code) || code.startsWith("UND_ERR")) return "transient";
+    if (error.message === "fetch failed") return "transient";
+  }
+
+  return "unknown";
+}
+
+/**
+ * The class of an analysis failure, looking through the errors the pipeline
+ * wraps around the original one
+ */
+export function analysisErrorClassOf(error: unknown): LLMErrorClass {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const errorClass = classifyLLMError(current);
+    if (errorClass !== "unknown") return errorClass;
+  }
+  return "unknown";
+}
+
+// The delay Gemini suggests for a rate-limited request, e.g. RetryInfo "37s"
+function suggestedRetryDelayMs(error: unknown): number | null {
+  if (!(error instanceof GoogleGenerativeAIFetchError)) return null;
+  const retryInfo = (error.errorDetails ?? []).find((detail) => "retryDelay" in detail);
+  const seconds = parseFloat(String(retryInfo?.retryDelay ?? ""));
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+// Exponential backoff with full jitter, so concurrent jobs don't retry in step
+function backoffDelayMs(attempt: number, options: LLMClientOptions, suggested: number | null): number {
+  const ceiling = Math.min(options.retryMaxDelayMs, options.retryBaseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.random() * ceiling;
+  return suggested === null ? jittered : Math.min(options.retryMaxDelayMs, Math.max(suggested, jittered));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Aborts the request after the timeout; providers that ignore the signal are
+// still cut off by the race
+async function generateWithTimeout(request: LLMRequest, timeoutMs: number): Promise<LLMResponse> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMError(request.stage, "timeout", `${request.stage} call timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      getLLMProvider().generate({ ...request, signal: controller.signal }),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Calls the active provider, retrying rate limits, transient errors and
+ * timeouts with jittered exponential backoff. Every attempt is recorded in the
+ * request's usage ledger; a failure throws an LLMError carrying the final
+ * error class.
+ */
+export async function callLLM(
+  request: LLMRequest,
+  options: LLMClientOptions = LLM_CLIENT_CONFIG,
+): Promise<LLMResponse> {
+  for (let attempt = 1; ; attempt++) {
+    const attemptStart = Date.now();
+    try {
+      const response = await generateWithTimeout(request, options.callTimeoutMs);
+      request.usage?.record(request, response, Date.now() - attemptStart);
+      return response;
+    } catch (error) {
+      const errorClass = classifyLLMError(error);
+      const message = error instanceof Error ? error.message : String(error);
+      request.usage?.recordFailure(request, getLLMProvider().modelName, errorClass, Date.now() - attemptStart);
+
+      if (!RETRYABLE_CLASSES.includes(errorClass) || attempt > options.maxRetries) {
+        throw error instanceof LLMError
+          ? error
+          : new LLMError(request.stage, errorClass, `${request.stage} call failed (${errorClass}): ${message}`, {
+              cause: error,
+            });
+      }
+
+      const delay = backoffDelayMs(attempt, options, suggestedRetryDelayMs(error));
+      console.warn(
+        `${request.stage} call failed (${errorClass}), retry ${attempt}/${options.maxRetries} in ${Math.round(delay)}ms:`,
+        message,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Fails the analysis once it runs past the analysis timeout. The stages'
+ * in-flight calls aren't cancelled, but each is bounded by its own timeout
+ * and retry limit, so they settle on their own.
+ */
+export async function withAnalysisTimeout<T>(
+  run: Promise<T>,
+  timeoutMs: number = LLM_CLIENT_CONFIG.analysisTimeoutMs,
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new AnalysisTimeoutError(timeoutMs)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,244 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { FileState, GoogleAIFileManager } from "@google/generative-ai/server";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import type { UsageLedger } from "./llm-usage";
+
+export type LLMStage = "business_overview" | "financial" | "hr" | "legacy";
+
+// The locally extracted page text or, when there is none, the raw file -
+// either inline or as a reference to a copy uploaded to the provider
+export type DocumentInput =
+  | { kind: "text"; text: string }
+  | { kind: "file"; data: string; mimeType: string } // data is base64
+  | { kind: "uploaded"; name: string; uri: string; mimeType: string };
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMRequest {
+  stage: LLMStage;
+  prompt: string;
+  document?: DocumentInput;
+  generationConfig?: GenerationConfig;
+  signal?: AbortSignal; // aborted when the call times out
+  usage?: UsageLedger; // collects the run's token counts; not sent to the model
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: { promptTokens: number; responseTokens: number }; // as reported by the provider
+}
+
+/**
+ * Common interface for every model backend the analysis stages can call
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly modelName: string; // part of the stage cache key
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Providers with file storage take the document once and let every stage reference it
+  uploadDocument?(filePath: string, mimeType: string): Promise<DocumentInput>;
+  deleteDocument?(document: DocumentInput & { kind: "uploaded" }): Promise<void>;
+}
+
+// How often to check whether an uploaded file has finished processing
+const UPLOAD_POLL_INTERVAL_MS = 2000;
+const UPLOAD_PROCESSING_TIMEOUT_MS = 120_000;
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private genAI: GoogleGenerativeAI;
+  private fileManager: GoogleAIFileManager;
+
+  constructor(
+    apiKey: string,
+    readonly modelName: string = process.env.GEMINI_MODEL || "gemini-1.5-flash",
+  ) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.fileManager = new GoogleAIFileManager(apiKey);
+  }
+
+  async uploadDocument(filePath: string, mimeType: string): Promise<DocumentInput> {
+    const { file: uploaded } = await this.fileManager.uploadFile(filePath, {
+      mimeType,
+      displayName: path.basename(filePath),
+    });
+
+    // Large PDFs are processed before they can be referenced
+    let file = uploaded;
+    const deadline = Date.now() + UPLOAD_PROCESSING_TIMEOUT_MS;
+    while (file.state === FileState.PROCESSING) {
+      if (Date.now() > deadline) {
+        throw new Error(`Uploaded file ${file.name} is still processing after ${UPLOAD_PROCESSING_TIMEOUT_MS}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, UPLOAD_POLL_INTERVAL_MS));
+      file = await this.fileManager.getFile(file.name);
+    }
+    if (file.state === FileState.FAILED) {
+      throw new Error(`Gemini could not process uploaded file ${file.name}: ${file.error?.message ?? "unknown error"}`);
+    }
+
+    return { kind: "uploaded", name: file.name, uri: file.uri, mimeType: file.mimeType };
+  }
+
+  async deleteDocument(document: DocumentInput & { kind: "uploaded" }): Promise<void> {
+    await this.fileManager.deleteFile(document.name);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: request.generationConfig,
+    });
+
+    const parts: Parameters<typeof model.generateContent>[0] = [request.prompt];
+    if (request.document?.kind === "text") {
+      parts.push(`DOCUMENT TEXT (page markers show the real page numbers):\n\n${request.document.text}`);
+    } else if (request.document?.kind === "uploaded") {
+      parts.push({
+        fileData: {
+          fileUri: request.document.uri,
+          mimeType: request.document.mimeType,
+        },
+      });
+    } else if (request.document) {
+      parts.push({
+        inlineData: {
+          data: request.document.data,
+          mimeType: request.document.mimeType,
+        },
+      });
+    }
+
+    const result = await model.generateContent(parts, { signal: request.signal });
+    const response = await result.response;
+    const usage = response.usageMetadata;
+    return {
+      text: response.text(),
+      model: this.modelName,
+      usage: usage && { promptTokens: usage.promptTokenCount, responseTokens: usage.candidatesTokenCount },
+    };
+  }
+}
+
+// The nth call for a stage (from 1) is saved as `<stage>-<n>.json`, so a
+// repair retry doesn't overwrite the response it repaired
+const callFileName = (stage: LLMStage, callIndex: number) => `${stage}-${callIndex}.json`;
+
+/**
+ * Offline provider that answers each stage with a canned response, so the full
+ * upload → analysis flow runs without an API key or network access. The nth
+ * call for a stage reads `<fixturesDir>/<stage>-<n>.json` when it exists (the
+ * layout RecordingProvider writes) and `<fixturesDir>/<stage>.json` otherwise.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly modelName = "mock";
+  private callCounts: Partial<Record<LLMStage, number>> = {};
+
+  constructor(
+    private fixturesDir: string = process.env.LLM_FIXTURES_DIR ||
+      path.join(process.cwd(), "server", "fixtures", "llm"),
+  ) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const callIndex = (this.callCounts[request.stage] ?? 0) + 1;
+    this.callCounts[request.stage] = callIndex;
+
+    const recordedPath = path.join(this.fixturesDir, callFileName(request.stage, callIndex));
+    const fixturePath = existsSync(recordedPath)
+      ? recordedPath
+      : path.join(this.fixturesDir, `${request.stage}.json`);
+
+    try {
+      return { text: readFileSync(fixturePath, "utf-8"), model: "mock" };
+    } catch (error) {
+      throw new Error(`No mock fixture for stage "${request.stage}" at ${fixturePath}`);
+    }
+  }
+}
+
+/**
+ * Passes requests through to another provider and saves every response to
+ * `<outputDir>/<stage>-<n>.json` - the layout MockProvider replays
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly modelName: string;
+  private callCounts: Partial<Record<LLMStage, number>> = {};
+
+  constructor(
+    private inner: LLMProvider,
+    private outputDir: string,
+  ) {
+    this.name = `recording:${inner.name}`;
+    this.modelName = inner.modelName;
+  }
+
+  uploadDocument(filePath: string, mimeType: string): Promise<DocumentInput> {
+    return this.inner.uploadDocument
+      ? this.inner.uploadDocument(filePath, mimeType)
+      : Promise.reject(new Error(`${this.inner.name} does not support document uploads`));
+  }
+
+  async deleteDocument(document: DocumentInput & { kind: "uploaded" }): Promise<void> {
+    await this.inner.deleteDocument?.(document);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const callIndex = (this.callCounts[request.stage] ?? 0) + 1;
+    this.callCounts[request.stage] = callIndex;
+
+    const response = await this.inner.generate(request);
+    mkdirSync(this.outputDir, { recursive: true });
+    writeFileSync(path.join(this.outputDir, callFileName(request.stage, callIndex)), response.text);
+    return response;
+  }
+}
+
+function createProvider(): LLMProvider {
+  const configured = process.env.LLM_PROVIDER;
+
+  if (configured === "mock") {
+    console.log("Using mock LLM provider");
+    return new MockProvider();
+  }
+
+  if (process.env.GEMINI_API_KEY) {
+    return new GeminiProvider(process.env.GEMINI_API_KEY);
+  }
+
+  if (configured === "gemini") {
+    throw new Error("LLM_PROVIDER=gemini requires GEMINI_API_KEY to be set");
+  }
+
+  // Canned fixtures must never be stored as the analysis of a real upload, so
+  // the silent fallback is limited to local development
+  if (process.env.NODE_ENV !== "development") {
+    throw new Error("GEMINI_API_KEY is not set; set it, or set LLM_PROVIDER=mock to use canned fixtures");
+  }
+
+  console.warn("GEMINI_API_KEY is not set - falling back to mock LLM provider in development");
+  return new MockProvider();
+}
+
+let provider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+/**
+ * Overrides the active provider, e.g. to replay recorded responses
+ */
+export function setLLMProvider(override: LLMProvider): void {
+  provider = override;
+}
@@ -0,0 +1,174 @@
+import { z } from "zod";
+
+// Schemas for the JSON each analysis stage asks the model to return. The
+// stages pass them to generateStructured typed with their own interfaces, so
+// a schema that drifts from its interface fails the type-check.
+
+const confidenceLevel = z.enum(["high", "medium", "low"]);
+
+// Models sometimes emit amounts as bare numbers even when asked for strings
+const nullableAmount = z
+  .union([z.string(), z.number()])
+  .nullable()
+  .transform((value) => (value === null ? null : String(value)));
+
+const nullableCount = z.preprocess(
+  (value) => (typeof value === "string" ? Number(value.replace(/,/g, "")) : value),
+  z.number().int().nonnegative().nullable(),
+);
+
+// "null", "N/A" and empty strings all mean the model found nothing
+const optionalText = z
+  .union([z.string(), z.number()])
+  .nullable()
+  .transform((value) => {
+    const text = value === null ? "" : String(value).trim();
+    return text && !/^(null|n\/?a|none|unknown)$/i.test(text) ? text : null;
+  });
+
+export const businessOverviewSchema = z.object({
+  // Added in business overview prompt v2
+  companyName: optionalText.default(null),
+  ticker: optionalText.default(null),
+  fiscalYear: optionalText.default(null),
+  companyOverview: z.string().min(1),
+  businessModel: z.string().min(1),
+  revenueStreams: z.array(z.string()),
+  keyMetrics: z.array(z.string()),
+  operationalChallenges: z.array(z.string()),
+  hrPayrollRelevance: z.string(),
+  industryClassification: z.string().min(1),
+  competitivePosition: z.string(),
+  extractionQuality: z.object({
+    confidence: confidenceLevel,
+    completeness: z.enum(["complete", "partial", "limited"]),
+    sourceQuality: z.string(),
+  }),
+});
+
+// Fields added in financial prompt v2 default to "not reported" so v1
+// responses (and recordings of them) still validate
+const financialAmount = z
+  .object({
+    amount: nullableAmount,
+    currency: z.string().min(1).default("USD"),
+    confidence: confidenceLevel,
+    sourceText: z.string().default(""),
+  })
+  .default({ amount: null, currency: "USD", confidence: "low", sourceText: "" });
+
+const segmentRevenue = z.object({
+  name: z.string().min(1),
+  revenue: nullableAmount,
+});
+
+const financialYear = z.object({
+  fiscalYear: z.coerce.string().min(1),
+  revenue: nullableAmount.default(null),
+  profit: nullableAmount.default(null),
+  employees: nullableCount.default(null),
+  personnelCosts: nullableAmount.default(null),
+});
+
+export const financialMetricsSchema = z.object({
+  revenue: z.object({
+    current: nullableAmount,
+    previous: nullableAmount,
+    growth: nullableAmount,
+    currency: z.string().min(1),
+    confidence: confidenceLevel,
+    sourceText: z.string(),
+    extractionMethod: z.enum(["direct_statement", "growth_narrative", "calculated"]),
+  }),
+  profitLoss: z.object({
+    type: z.enum(["profit", "loss", "breakeven"]),
+    amount: nullableAmount,
+    margin: nullableAmount,
+    confidence: confidenceLevel,
+    sourceText: z.string(),
+    validationFlags: z.array(z.string()).default([]),
+  }),
+  employees: z.object({
+    total: nullableCount,
+    previousYear: nullableCount,
+    growth: nullableAmount,
+    confidence: confidenceLevel,
+    sourceText: z.string(),
+  }),
+  assets: z.object({
+    total: nullableAmount,
+    currency: z.string().min(1),
+    confidence: confidenceLevel,
+    sourceText: z.string(),
+  }),
+  personnelCosts: financialAmount,
+  operatingExpenses: financialAmount,
+  researchAndDevelopment: financialAmount,
+  cash: financialAmount,
+  debt: financialAmount,
+  segments: z
+    .object({
+      items: z.array(segmentRevenue).default([]),
+      currency: z.string().min(1).default("USD"),
+      confidence: confidenceLevel,
+      sourceText: z.string().default(""),
+    })
+    .default({ items: [], currency: "USD", confidence: "low", sourceText: "" }),
+  // Added in financial prompt v3
+  history: z
+    .object({
+      years: z.array(financialYear).default([]),
+      currency: z.string().min(1).default("USD"),
+      confidence: confidenceLevel,
+      sourceText: z.string().default(""),
+    })
+    .default({ years: [], currency: "USD", confidence: "low", sourceText: "" }),
+  validation: z.object({
+    revenueReasonable: z.boolean(),
+    profitMarginReasonable: z.boolean(),
+    crossCheckPassed: z.boolean(),
+    flaggedForReview: z.boolean(),
+    notes: z.string(),
+    extractionMethod: z.string(),
+  }),
+});
+
+/**
+ * Accepts the `{ success, data }` wrapper the prompt asks for as well as the
+ * legacy `{ financialMetrics }` and bare formats
+ */
+export function unwrapFinancialResponse(parsed: unknown): unknown {
+  if (typeof parsed !== "object" || parsed === null) return parsed;
+
+  const envelope = parsed as { success?: unknown; data?: unknown; financialMetrics?: unknown };
+  if (envelope.success && envelope.data) return envelope.data;
+  if (envelope.financialMetrics) return envelope.financialMetrics;
+  return parsed;
+}
+
+const hrInsightSchema = z.object({
+  dataPoint: z.string().min(1),
+  hrRelevance: z.string().min(1),
+  conversationStarter: z.string().min(1),
+  sourceContext: z.string(),
+  confidence: z.coerce.number().min(1).max(10),
+  pageReference: z.string(),
+  strategicImplications: z.string(),
+  industryContext: z.string(),
+});
+
+export const hrInsightsSchema = z.object({
+  summary: z.string().min(1),
+  businessContext: z.array(hrInsightSchema),
+  workforceInsights: z.array(hrInsightSchema),
+  operationalChallenges: z.array(hrInsightSchema),
+  strategicPeopleInitiatives: z.array(hrInsightSchema),
+  extractionQuality: z.object({
+    overallConfidence: confidenceLevel,
+    dataCompleteness: z.enum(["complete", "partial", "limited"]),
+    validationConcerns: z.array(z.string()).default([]),
+    recommendedFollowUp: z.array(z.string()).default([]),
+    industryIdentified: z.string().default("Unknown"),
+    documentType: z.string().default("Unknown"),
+  }),
+});
@@ -0,0 +1,218 @@
+import type { LLMCall } from "@shared/schema";
+import type { LLMErrorClass } from "./llm-client";
+import type { LLMRequest, LLMResponse, LLMStage } from "./llm-provider";
+
+// Token counts, latency and estimated cost of the model calls made for one
+// analysis. callLLM records every attempt, failed or not, into the ledger
+// carried by the request, which hands each one to its sink straight away so
+// the job can store it even if the run never finishes.
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M response tokens
+  // Some models charge more once the prompt passes a size
+  longContext?: { aboveTokens: number; inputPerMillion: number; outputPerMillion: number };
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-1.5-flash": {
+    inputPerMillion: 0.075,
+    outputPerMillion: 0.3,
+    longContext: { aboveTokens: 128_000, inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  },
+  "gemini-1.5-pro": {
+    inputPerMillion: 1.25,
+    outputPerMillion: 5,
+    longContext: { aboveTokens: 128_000, inputPerMillion: 2.5, outputPerMillion: 10 },
+  },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-pro": {
+    inputPerMillion: 1.25,
+    outputPerMillion: 10,
+    longContext: { aboveTokens: 200_000, inputPerMillion: 2.5, outputPerMillion: 15 },
+  },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+// LLM_PRICES is a JSON object of model name to ModelPrice, merged over the
+// defaults, e.g. {"gemini-1.5-flash":{"inputPerMillion":0.075,"outputPerMillion":0.3}}
+function loadPriceTable(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICES) return DEFAULT_MODEL_PRICES;
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(process.env.LLM_PRICES) };
+  } catch (error) {
+    console.warn("LLM_PRICES is not valid JSON, using the default price table:", error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export const MODEL_PRICES = loadPriceTable();
+
+// Versioned names like "gemini-1.5-flash-002" use their family's price
+function priceFor(model: string): ModelPrice | undefined {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+  const family = Object.keys(MODEL_PRICES)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : undefined;
+}
+
+/**
+ * Estimated USD cost of one call, or null when the model has no price
+ */
+export function estimateCost(model: string, promptTokens: number, responseTokens: number): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+
+  const rates =
+    price.longContext && promptTokens > price.longContext.aboveTokens ? price.longContext : price;
+  return (promptTokens * rates.inputPerMillion + responseTokens * rates.outputPerMillion) / 1_000_000;
+}
+
+// Rough count for providers that don't report usage (the mock)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface LLMCallUsage {
+  stage: LLMStage;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number; // this attempt only; retries are recorded separately
+  costUsd: number | null;
+  errorClass: LLMErrorClass | null; // set when the attempt failed
+  createdAt: Date;
+}
+
+export interface UsageCounts {
+  calls: number;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+  costUsd: number; // unpriced calls count as zero
+  unpricedCalls: number;
+  failedCalls: number;
+}
+
+export interface UsageTotals extends UsageCounts {
+  models: string[];
+  byStage: Partial<Record<LLMStage, UsageCounts>>;
+}
+
+export const emptyUsageCounts = (): UsageCounts => ({
+  calls: 0,
+  promptTokens: 0,
+  responseTokens: 0,
+  latencyMs: 0,
+  costUsd: 0,
+  unpricedCalls: 0,
+  failedCalls: 0,
+});
+
+export function addUsage(
+  counts: UsageCounts,
+  call: Pick<LLMCall, "promptTokens" | "responseTokens" | "latencyMs" | "costUsd" | "errorClass">,
+): UsageCounts {
+  return {
+    calls: counts.calls + 1,
+    promptTokens: counts.promptTokens + call.promptTokens,
+    responseTokens: counts.responseTokens + call.responseTokens,
+    latencyMs: counts.latencyMs + call.latencyMs,
+    costUsd: counts.costUsd + (call.costUsd ?? 0),
+    unpricedCalls: counts.unpricedCalls + (call.costUsd === null ? 1 : 0),
+    failedCalls: counts.failedCalls + (call.errorClass ? 1 : 0),
+  };
+}
+
+export class UsageLedger {
+  readonly calls: LLMCallUsage[] = [];
+
+  constructor(private sink?: (call: LLMCallUsage) => void) {}
+
+  record(request: LLMRequest, response: LLMResponse, latencyMs: number): void {
+    const documentText = request.document?.kind === "text" ? request.document.text : "";
+    const promptTokens = response.usage?.promptTokens ?? estimateTokens(request.prompt + documentText);
+    const responseTokens = response.usage?.responseTokens ?? estimateTokens(response.text);
+
+    this.add({
+      stage: request.stage,
+      model: response.model,
+      promptTokens,
+      responseTokens,
+      latencyMs,
+      costUsd: estimateCost(response.model, promptTokens, responseTokens),
+      errorClass: null,
+      createdAt: new Date(),
+    });
+  }
+
+  // Providers don't report usage for a failed request, so it counts no tokens
+  recordFailure(request: LLMRequest, model: string, errorClass: LLMErrorClass, latencyMs: number): void {
+    this.add({
+      stage: request.stage,
+      model,
+      promptTokens: 0,
+      responseTokens: 0,
+      latencyMs,
+      costUsd: estimateCost(model, 0, 0),
+      errorClass,
+      createdAt: new Date(),
+    });
+  }
+
+  private add(call: LLMCallUsage): void {
+    this.calls.push(call);
+    this.sink?.(call);
+  }
+
+  totals(): UsageTotals {
+    const byStage: UsageTotals["byStage"] = {};
+    let overall = emptyUsageCounts();
+    for (const call of this.calls) {
+      overall = addUsage(overall, call);
+      byStage[call.stage] = addUsage(byStage[call.stage] ?? emptyUsageCounts(), call);
+    }
+
+    return {
+      ...overall,
+      models: Array.from(new Set(this.calls.map((call) => call.model))),
+      byStage,
+    };
+  }
+}
+
+export type UsageDimension = "day" | "user" | "stage" | "upload";
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ["day", "user", "stage", "upload"];
+
+export interface UsageGroup extends UsageCounts {
+  day?: string; // UTC date, YYYY-MM-DD
+  userId?: number | null;
+  stage?: string;
+  uploadId?: number | null;
+}
+
+/**
+ * Sums stored calls per combination of the given dimensions, by day first
+ * and then most expensive first
+ */
+export function aggregateUsage(calls: LLMCall[], dimensions: UsageDimension[]): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const call of calls) {
+    const key: Omit<UsageGroup, keyof UsageCounts> = {
+      ...(dimensions.includes("day") && { day: call.createdAt.toISOString().slice(0, 10) }),
+      ...(dimensions.includes("user") && { userId: call.userId }),
+      ...(dimensions.includes("stage") && { stage: call.stage }),
+      ...(dimensions.includes("upload") && { uploadId: call.uploadId }),
+    };
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { ...key, ...emptyUsageCounts() };
+    groups.set(id, { ...group, ...addUsage(group, call) });
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => (a.day ?? "").localeCompare(b.day ?? "") || b.costUsd - a.costUsd,
+  );
+}
@@ -0,0 +1,80 @@
+import { EventEmitter } from "events";
+import type { LLMErrorClass } from "./llm-client";
+
+export type PipelineStage = "business_overview" | "financial" | "hr";
+
+export type ProgressEventType =
+  | "analysis_started"
+  | "stage_started"
+  | "stage_completed"
+  | "stage_failed"
+  | "stage_degraded"
+  | "analysis_completed"
+  | "analysis_failed";
+
+export interface ProgressEvent {
+  type: ProgressEventType;
+  stage?: PipelineStage;
+  duration?: number;
+  message?: string;
+  attempt?: number;
+  errorClass?: LLMErrorClass; // analysis_failed only
+  timestamp: string;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export type ProgressReporter = (
+  event: Omit<ProgressEvent, "timestamp">,
+) => void;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Events of the current (or most recent) run per upload, replayed to late subscribers
+const history = new Map<number, ProgressEvent[]>();
+
+export function publishProgress(
+  uploadId: number,
+  event: Omit<ProgressEvent, "timestamp">,
+): void {
+  const fullEvent: ProgressEvent = {
+    ...event,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (event.type === "analysis_started") {
+    history.set(uploadId, []);
+  }
+  const events = history.get(uploadId) ?? [];
+  events.push(fullEvent);
+  history.set(uploadId, events);
+
+  emitter.emit(`upload:${uploadId}`, fullEvent);
+}
+
+/**
+ * Returns a reporter bound to one upload, for passing into the pipeline
+ */
+export function createProgressReporter(uploadId: number): ProgressReporter {
+  return (event) => publishProgress(uploadId, event);
+}
+
+export function getProgressHistory(uploadId: number): ProgressEvent[] {
+  return history.get(uploadId) ?? [];
+}
+
+export function clearProgressHistory(uploadId: number): void {
+  history.delete(uploadId);
+}
+
+export function subscribeToProgress(
+  uploadId: number,
+  listener: ProgressListener,
+): () => void {
+  const channel = `upload:${uploadId}`;
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
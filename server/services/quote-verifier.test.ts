@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { DocumentText } from "./document-text";
+import { buildQuoteIndex, verifyInsightQuote, verifyQuote } from "./quote-verifier";
+
+function documentOf(...pages: string[]): DocumentText {
+  return {
+    pageCount: pages.length,
+    pages: pages.map((text, i) => ({ pageNumber: i + 1, text })),
+    pagination: "layout",
+    extractedAt: new Date(0).toISOString(),
+  };
+}
+
+const index = buildQuoteIndex(
+  documentOf(
+    "Letter to shareholders. We delivered another year of disciplined growth.",
+    "Total revenue increased 12.5% to $2.9 billion, driven by “strong demand” in our logistics seg-\nment. " +
+      "Headcount grew to 4,200 employees across 18 countries while attrition fell to 9%.",
+  ),
+);
+
+describe("verifyQuote", () => {
+  it("verifies an exact quote despite case, curly quotes and line-break hyphenation", () => {
+    expect(
+      verifyQuote('driven by "Strong Demand" in our logistics segment', index),
+    ).toEqual({ status: "verified", matchedPage: 2, similarity: 1 });
+  });
+
+  it("keeps decimals and currency so figures must match", () => {
+    expect(verifyQuote("revenue increased 12.5% to $2.9 billion", index).status).toBe("verified");
+    expect(verifyQuote("revenue increased 12.5% to $3.9 billion", index).status).not.toBe("verified");
+  });
+
+  it("reports a paraphrase with most trigrams in place as approximate", () => {
+    const result = verifyQuote(
+      "Headcount grew to 4,200 employees across 18 countries while attrition dropped",
+      index,
+    );
+    expect(result.status).toBe("approximate");
+    expect(result.matchedPage).toBe(2);
+    expect(result.similarity).toBeGreaterThanOrEqual(0.6);
+    expect(result.similarity).toBeLessThan(1);
+  });
+
+  it("reports an invented quote as not found", () => {
+    expect(verifyQuote("The board approved a special dividend for all holders", index)).toEqual({
+      status: "not_found",
+      matchedPage: null,
+      similarity: 0,
+    });
+  });
+
+  it("only accepts exact matches for short quotes", () => {
+    expect(verifyQuote("disciplined growth", index).status).toBe("verified");
+    expect(verifyQuote("rapid growth", index).status).toBe("unverifiable");
+    expect(verifyQuote(undefined, index).status).toBe("unverifiable");
+  });
+});
+
+describe("verifyInsightQuote", () => {
+  it("uses the source context when the data point isn't verbatim", () => {
+    expect(
+      verifyInsightQuote(
+        {
+          dataPoint: "Around 4k staff",
+          sourceContext: "Headcount grew to 4,200 employees across 18 countries",
+        },
+        index,
+      ),
+    ).toEqual({ status: "verified", matchedPage: 2, similarity: 1 });
+  });
+
+  it("keeps the data point's result when it is the better match", () => {
+    expect(
+      verifyInsightQuote(
+        { dataPoint: "attrition fell to 9%", sourceContext: "Attrition was low this year overall" },
+        index,
+      ).status,
+    ).toBe("verified");
+  });
+});
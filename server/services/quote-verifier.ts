@@ -0,0 +1,124 @@
+import type { DocumentText } from "./document-text";
+
+// "unverifiable": too short to judge without an exact match
+export type QuoteStatus = "verified" | "approximate" | "unverifiable" | "not_found";
+
+export interface QuoteVerification {
+  status: QuoteStatus;
+  matchedPage: number | null;
+  similarity: number; // share of the quote's word trigrams found on the matched page (0-1)
+}
+
+// Minimum trigram overlap for a quote to count as an approximate match
+const APPROXIMATE_MATCH_THRESHOLD = 0.6;
+
+// Quotes shorter than this carry too little signal for trigram matching, so
+// they're only checked for an exact match
+const MIN_QUOTE_WORDS = 4;
+
+interface IndexedPage {
+  pageNumber: number;
+  text: string; // normalized
+  trigrams: Set<string>;
+}
+
+export interface QuoteIndex {
+  pages: IndexedPage[];
+}
+
+// Lowercases and strips punctuation so PDF line breaks, curly quotes and
+// hyphenation differences don't defeat the match
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’“”"'`]/g, "")
+    .replace(/-\s*\n\s*/g, "")
+    .replace(/[^a-z0-9%$.]+/g, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toTrigrams(words: string[]): string[] {
+  const trigrams: string[] = [];
+  for (let i = 0; i + 2 < words.length; i++) {
+    trigrams.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  }
+  return trigrams;
+}
+
+export function buildQuoteIndex(documentText: DocumentText): QuoteIndex {
+  return {
+    pages: documentText.pages.map((page) => {
+      const text = normalize(page.text);
+      return {
+        pageNumber: page.pageNumber,
+        text,
+        trigrams: new Set(toTrigrams(text.split(" "))),
+      };
+    }),
+  };
+}
+
+export function verifyQuote(quote: string | undefined, index: QuoteIndex): QuoteVerification {
+  const normalizedQuote = normalize(quote ?? "");
+  const words = normalizedQuote.split(" ").filter(Boolean);
+
+  if (words.length === 0) {
+    return { status: "unverifiable", matchedPage: null, similarity: 0 };
+  }
+
+  const exactPage = index.pages.find((page) => page.text.includes(normalizedQuote));
+  if (exactPage) {
+    return { status: "verified", matchedPage: exactPage.pageNumber, similarity: 1 };
+  }
+
+  if (words.length < MIN_QUOTE_WORDS) {
+    return { status: "unverifiable", matchedPage: null, similarity: 0 };
+  }
+
+  const quoteTrigrams = toTrigrams(words);
+  let best: QuoteVerification = { status: "not_found", matchedPage: null, similarity: 0 };
+
+  for (const page of index.pages) {
+    const found = quoteTrigrams.filter((trigram) => page.trigrams.has(trigram)).length;
+    const similarity = found / quoteTrigrams.length;
+    if (similarity > best.similarity) {
+      best = { status: "not_found", matchedPage: page.pageNumber, similarity };
+    }
+  }
+
+  const similarity = Math.round(best.similarity * 100) / 100;
+  if (best.similarity >= APPROXIMATE_MATCH_THRESHOLD) {
+    return { status: "approximate", matchedPage: best.matchedPage, similarity };
+  }
+  return { status: "not_found", matchedPage: null, similarity };
+}
+
+const STATUS_RANK: Record<QuoteStatus, number> = {
+  verified: 3,
+  approximate: 2,
+  unverifiable: 1,
+  not_found: 0,
+};
+
+/**
+ * Checks an insight's quoted text against the document. The data point is
+ * usually the tighter quote, but a verbatim source context also counts.
+ */
+export function verifyInsightQuote(
+  insight: { dataPoint: string; sourceContext?: string },
+  index: QuoteIndex,
+): QuoteVerification {
+  const candidates = [verifyQuote(insight.dataPoint, index)];
+  if (insight.sourceContext) {
+    candidates.push(verifyQuote(insight.sourceContext, index));
+  }
+
+  return candidates.reduce((best, candidate) =>
+    STATUS_RANK[candidate.status] > STATUS_RANK[best.status] ||
+    (candidate.status === best.status && candidate.similarity > best.similarity)
+      ? candidate
+      : best,
+  );
+}
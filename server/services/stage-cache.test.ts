@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { setLLMProvider } from "./llm-provider";
+import { openStageCache, setStageCacheEnabled } from "./stage-cache";
+
+function useModel(modelName: string) {
+  setLLMProvider({
+    name: "test",
+    modelName,
+    generate: () => Promise.reject(new Error("not used")),
+  });
+}
+
+let dir: string;
+let fileCount = 0;
+
+// Each test gets its own content so entries never leak between tests
+async function documentWith(content: string): Promise<string> {
+  const filePath = path.join(dir, `report-${++fileCount}.pdf`);
+  await writeFile(filePath, `${content} #${fileCount}`);
+  return filePath;
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "stage-cache-"));
+  setStageCacheEnabled(true);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => useModel("model-a"));
+
+afterEach(() => {
+  delete process.env.PROMPT_VERSION_HR;
+});
+
+describe("StageCacheSession", () => {
+  it("serves a second run of the same document from the cache", async () => {
+    const filePath = await documentWith("annual report");
+    const execute = vi.fn().mockResolvedValue({ revenue: "$1 billion" });
+
+    const first = await openStageCache(filePath);
+    expect(await first.run("financial", execute)).toEqual({ revenue: "$1 billion" });
+    expect(first.hits).toEqual([]);
+
+    const second = await openStageCache(filePath);
+    expect(await second.run("financial", execute)).toEqual({ revenue: "$1 billion" });
+    expect(second.hits).toEqual(["financial"]);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys entries by stage, model, prompt version and context", async () => {
+    const filePath = await documentWith("annual report");
+    const execute = vi.fn().mockResolvedValue({});
+    const runHr = async (context?: string) => (await openStageCache(filePath)).run("hr", execute, context);
+
+    await runHr("facts v1");
+    await runHr("facts v1");
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    await runHr("facts v2");
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    await (await openStageCache(filePath)).run("financial", execute);
+    expect(execute).toHaveBeenCalledTimes(3);
+
+    useModel("model-b");
+    await runHr("facts v1");
+    expect(execute).toHaveBeenCalledTimes(4);
+
+    useModel("model-a");
+    process.env.PROMPT_VERSION_HR = "v1";
+    await runHr("facts v1");
+    expect(execute).toHaveBeenCalledTimes(5);
+  });
+
+  it("misses when the document content changes", async () => {
+    const execute = vi.fn().mockResolvedValue({});
+    await (await openStageCache(await documentWith("draft"))).run("financial", execute);
+    await (await openStageCache(await documentWith("final"))).run("financial", execute);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("reruns and overwrites the entry on refresh", async () => {
+    const filePath = await documentWith("annual report");
+    await (await openStageCache(filePath)).run("financial", async () => "old");
+
+    const refreshed = await openStageCache(filePath, { refresh: true });
+    expect(await refreshed.run("financial", async () => "new")).toBe("new");
+    expect(refreshed.hits).toEqual([]);
+
+    expect(await (await openStageCache(filePath)).run("financial", async () => "unused")).toBe("new");
+  });
+
+  it("doesn't store failed stages", async () => {
+    const filePath = await documentWith("annual report");
+    const session = await openStageCache(filePath);
+    await expect(
+      session.run("financial", () => Promise.reject(new Error("model unavailable"))),
+    ).rejects.toThrow("model unavailable");
+
+    expect(await (await openStageCache(filePath)).run("financial", async () => "fresh")).toBe("fresh");
+  });
+
+  it("always runs the stage when disabled or the file can't be hashed", async () => {
+    const execute = vi.fn().mockResolvedValue({});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const missing = await openStageCache(path.join(dir, "missing.pdf"));
+    await missing.run("financial", execute);
+    await missing.run("financial", execute);
+    expect(warn).toHaveBeenCalled();
+
+    const filePath = await documentWith("annual report");
+    setStageCacheEnabled(false);
+    try {
+      await (await openStageCache(filePath)).run("financial", execute);
+      await (await openStageCache(filePath)).run("financial", execute);
+    } finally {
+      setStageCacheEnabled(true);
+    }
+    expect(execute).toHaveBeenCalledTimes(4);
+  });
+});
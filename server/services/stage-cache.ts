@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { storage } from "../storage";
+import { getPrompt } from "../prompts";
+import { FEATURES } from "./feature-flags";
+import { getLLMProvider } from "./llm-provider";
+import type { PipelineStage } from "./progress-events";
+
+// Stage outputs are cached by document content, prompt version and model, so
+// a duplicate upload or a re-analysis only calls the model for stages whose
+// inputs changed. Only successful outputs are stored; fallbacks never are.
+// Stages cache the model's output only, and derive anything else from it
+// after a hit, since the derivation code isn't part of the key.
+
+let cacheEnabled = FEATURES.STAGE_CACHE;
+
+/**
+ * Turns the cache on or off, e.g. so the eval always calls the provider
+ */
+export function setStageCacheEnabled(enabled: boolean): void {
+  cacheEnabled = enabled;
+}
+
+export const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+/**
+ * The cache as seen by one pipeline run. Records which stages were served
+ * from it; with `refresh` every stage runs and overwrites its entry.
+ */
+export class StageCacheSession {
+  readonly hits: PipelineStage[] = [];
+
+  constructor(
+    private contentHash: string | null,
+    private refresh = false,
+  ) {}
+
+  /**
+   * Returns the stage's cached output or runs it and stores the result.
+   * `context` is any extra prompt input besides the document (the HR stage's
+   * upstream facts); a different context is a different entry.
+   */
+  async run<T>(stage: PipelineStage, execute: () => Promise<T>, context = ""): Promise<T> {
+    if (!this.contentHash) return execute();
+
+    const key = {
+      contentHash: this.contentHash,
+      stage,
+      promptVersion: getPrompt(stage).version,
+      model: getLLMProvider().modelName,
+      contextHash: context ? sha256(context) : "",
+    };
+
+    // A broken cache only costs a model call
+    if (!this.refresh) {
+      try {
+        const cached = await storage.getStageResult(key);
+        if (cached) {
+          console.log(`Stage ${stage}: reusing cached result (prompt ${key.promptVersion}, ${key.model})`);
+          this.hits.push(stage);
+          return JSON.parse(cached.result) as T;
+        }
+      } catch (error) {
+        console.warn(`Stage ${stage}: cache lookup failed:`, error);
+      }
+    }
+
+    const result = await execute();
+    try {
+      await storage.saveStageResult({ ...key, result: JSON.stringify(result) });
+    } catch (error) {
+      console.warn(`Stage ${stage}: caching the result failed:`, error);
+    }
+    return result;
+  }
+}
+
+export async function openStageCache(
+  filePath: string,
+  options: { refresh?: boolean } = {},
+): Promise<StageCacheSession> {
+  if (!cacheEnabled) return new StageCacheSession(null);
+
+  try {
+    return new StageCacheSession(await hashFile(filePath), options.refresh);
+  } catch (error) {
+    console.warn("Hashing the document failed, running without the stage cache:", error);
+    return new StageCacheSession(null);
+  }
+}
@@ -0,0 +1,114 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import { callLLM, LLMError } from "./llm-client";
+import type { LLMRequest, LLMStage } from "./llm-provider";
+
+/**
+ * Raised when a stage response still fails its schema after the repair retry
+ */
+export class LLMOutputValidationError extends LLMError {
+  constructor(
+    stage: LLMStage,
+    public readonly issues: string[],
+    public readonly rawResponse: string,
+  ) {
+    super(
+      stage,
+      "invalid_output",
+      `${stage} response failed schema validation after repair: ${issues.slice(0, 5).join("; ")}`,
+    );
+    this.name = "LLMOutputValidationError";
+  }
+}
+
+type ParseOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+// Longest previous response echoed back in a repair prompt
+const MAX_REPAIR_ECHO_CHARS = 20000;
+
+function extractJsonText(text: string): string | null {
+  const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (codeBlockMatch) return codeBlockMatch[1];
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.substring(start, end + 1) : null;
+}
+
+function parseResponse<T>(
+  text: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  unwrap: (parsed: unknown) => unknown,
+): ParseOutcome<T> {
+  const jsonText = extractJsonText(text);
+  if (!jsonText) {
+    return { success: false, issues: ["Response did not contain a JSON object"] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  const result = schema.safeParse(unwrap(parsed));
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    ),
+  };
+}
+
+function buildRepairPrompt(originalPrompt: string, previousResponse: string, issues: string[]): string {
+  return `${originalPrompt}
+
+**YOUR PREVIOUS RESPONSE FAILED VALIDATION.**
+Fix exactly these problems and keep everything else unchanged:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Previous response:
+${previousResponse.substring(0, MAX_REPAIR_ECHO_CHARS)}
+
+Respond with ONLY the corrected JSON.`;
+}
+
+/**
+ * Calls the model and validates the JSON it returns against `schema`. A
+ * response that fails validation gets one repair attempt citing the exact
+ * errors; if that also fails an LLMOutputValidationError is thrown.
+ */
+export async function generateStructured<T>(
+  request: LLMRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  unwrap: (parsed: unknown) => unknown = (parsed) => parsed,
+): Promise<T> {
+  const { text } = await callLLM(request);
+  const firstAttempt = parseResponse(text, schema, unwrap);
+  if (firstAttempt.success) {
+    return firstAttempt.data;
+  }
+
+  console.warn(`${request.stage} response failed validation, requesting repair:`, firstAttempt.issues);
+
+  const { text: repairedText } = await callLLM({
+    ...request,
+    prompt: buildRepairPrompt(request.prompt, text, firstAttempt.issues),
+  });
+  const repairAttempt = parseResponse(repairedText, schema, unwrap);
+  if (repairAttempt.success) {
+    console.log(`${request.stage} response repaired successfully`);
+    return repairAttempt.data;
+  }
+
+  throw new LLMOutputValidationError(request.stage, repairAttempt.issues, repairedText);
+}
@@ -1,29 +1,111 @@
-import { users, uploads, type User, type InsertUser, type Upload, type InsertUpload } from "@shared/schema";
+import { eq, desc, and, asc, lte, lt, gte, inArray, isNotNull } from "drizzle-orm";
+import { users, uploads, jobs, analyses, companies, stageResults, llmCalls, type User, type InsertUser, type Upload, type InsertUpload, type Job, type InsertJob, type Analysis, type InsertAnalysis, type Company, type InsertCompany, type StageResult, type InsertStageResult, type LLMCall, type InsertLLMCall } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Upload methods
   createUpload(upload: InsertUpload): Promise<Upload>;
-  getUploads(): Promise<Upload[]>;
+  getUploads(ownerId?: number): Promise<Upload[]>;
   getUploadById(id: number): Promise<Upload | undefined>;
   updateUploadStatus(id: number, status: string, analysisData?: string): Promise<Upload | undefined>;
+  setUploadErrorClass(id: number, errorClass: string | null): Promise<Upload | undefined>;
+  setUploadVisibility(id: number, visibility: string): Promise<Upload | undefined>;
   deleteUpload(id: number): Promise<boolean>;
+  getAnalyzedUploadByContentHash(contentHash: string): Promise<Upload | undefined>;
+
+  // Analysis history methods
+  createAnalysis(analysis: InsertAnalysis): Promise<Analysis>;
+  getAnalysesByUpload(uploadId: number): Promise<Analysis[]>;
+  getAnalysisById(id: number): Promise<Analysis | undefined>;
+  setCurrentAnalysis(uploadId: number, analysis: Analysis): Promise<Upload | undefined>;
+
+  // Company methods
+  getCompanies(): Promise<Company[]>;
+  getCompanyById(id: number): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  updateCompany(id: number, updates: CompanyUpdate): Promise<Company | undefined>;
+  getUploadsByCompany(companyId: number): Promise<Upload[]>;
+  setUploadCompany(uploadId: number, link: UploadCompanyLink): Promise<Upload | undefined>;
+
+  // Stage result cache methods
+  getStageResult(key: StageResultKey): Promise<StageResult | undefined>;
+  saveStageResult(result: InsertStageResult): Promise<StageResult>;
+
+  // Model usage methods
+  createLLMCalls(calls: InsertLLMCall[]): Promise<LLMCall[]>;
+  setLLMCallsAnalysis(ids: number[], analysisId: number): Promise<void>;
+  getLLMCalls(range: UsageRange, userId?: number): Promise<LLMCall[]>;
+
+  // Job methods
+  createJob(job: InsertJob): Promise<Job>;
+  getJobsByUpload(uploadId: number): Promise<Job[]>;
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  updateJob(id: number, updates: JobUpdate): Promise<Job | undefined>;
+  heartbeatJob(id: number): Promise<void>;
+  requeueStaleJobs(staleBefore: Date): Promise<Job[]>;
 }
 
+export type JobUpdate = Partial<Pick<Job, "status" | "runAt" | "lastError">>;
+export type CompanyUpdate = Partial<Pick<Company, "name" | "ticker" | "industry">>;
+export type UploadCompanyLink = Pick<Upload, "companyId" | "fiscalYear" | "companyLinkedBy">;
+export type StageResultKey = Pick<StageResult, "contentHash" | "stage" | "promptVersion" | "model" | "contextHash">;
+export type UsageRange = { from?: Date; to?: Date }; // from inclusive, to exclusive
+
+const stageResultKey = (key: StageResultKey) =>
+  [key.contentHash, key.stage, key.promptVersion, key.model, key.contextHash].join(":");
+
+// Latest fiscal year first, undated uploads last
+const byFiscalYearDesc = (a: Upload, b: Upload) =>
+  (b.fiscalYear ?? -Infinity) - (a.fiscalYear ?? -Infinity) ||
+  b.uploadTime.getTime() - a.uploadTime.getTime();
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private uploads: Map<number, Upload>;
+  private jobs: Map<number, Job>;
+  private analyses: Map<number, Analysis>;
+  private companies: Map<number, Company>;
+  private stageResults: Map<string, StageResult>;
+  private llmCalls: Map<number, LLMCall>;
   private currentUserId: number;
   private currentUploadId: number;
+  private currentJobId: number;
+  private currentAnalysisId: number;
+  private currentCompanyId: number;
+  private currentStageResultId: number;
+  private currentLLMCallId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.uploads = new Map();
+    this.jobs = new Map();
+    this.analyses = new Map();
+    this.companies = new Map();
+    this.stageResults = new Map();
+    this.llmCalls = new Map();
     this.currentUserId = 1;
     this.currentUploadId = 1;
+    this.currentJobId = 1;
+    this.currentAnalysisId = 1;
+    this.currentCompanyId = 1;
+    this.currentStageResultId = 1;
+    this.currentLLMCallId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -47,27 +129,41 @@ export class MemStorage implements IStorage {
     const id = this.currentUploadId++;
     const upload: Upload = {
       id,
+      ownerId: insertUpload.ownerId ?? null,
       fileName: insertUpload.fileName,
       fileSize: insertUpload.fileSize,
       status: insertUpload.status || "processing",
       uploadTime: new Date(),
       filePath: insertUpload.filePath ?? null,
       analysisData: insertUpload.analysisData ?? null,
+      currentAnalysisId: null,
+      companyId: null,
+      fiscalYear: null,
+      companyLinkedBy: null,
+      contentHash: insertUpload.contentHash ?? null,
+      errorClass: null,
+      visibility: insertUpload.visibility ?? "private",
     };
     this.uploads.set(id, upload);
     return upload;
   }
 
-  async getUploads(): Promise<Upload[]> {
-    return Array.from(this.uploads.values()).sort(
-      (a, b) => b.uploadTime.getTime() - a.uploadTime.getTime()
-    );
+  async getUploads(ownerId?: number): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => ownerId === undefined || upload.ownerId === ownerId)
+      .sort((a, b) => b.uploadTime.getTime() - a.uploadTime.getTime());
   }
 
   async getUploadById(id: number): Promise<Upload | undefined> {
     return this.uploads.get(id);
   }
 
+  async getAnalyzedUploadByContentHash(contentHash: string): Promise<Upload | undefined> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => upload.contentHash === contentHash && upload.currentAnalysisId !== null)
+      .sort((a, b) => b.uploadTime.getTime() - a.uploadTime.getTime())[0];
+  }
+
   async updateUploadStatus(id: number, status: string, analysisData?: string): Promise<Upload | undefined> {
     const upload = this.uploads.get(id);
     if (!upload) return undefined;
@@ -81,9 +177,564 @@ export class MemStorage implements IStorage {
     return updatedUpload;
   }
 
+  async setUploadErrorClass(id: number, errorClass: string | null): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    if (!upload) return undefined;
+
+    const updatedUpload: Upload = { ...upload, errorClass };
+    this.uploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
+  async setUploadVisibility(id: number, visibility: string): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    if (!upload) return undefined;
+
+    const updatedUpload: Upload = { ...upload, visibility };
+    this.uploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
   async deleteUpload(id: number): Promise<boolean> {
+    Array.from(this.jobs.values())
+      .filter((job) => job.uploadId === id)
+      .forEach((job) => this.jobs.delete(job.id));
+    Array.from(this.analyses.values())
+      .filter((analysis) => analysis.uploadId === id)
+      .forEach((analysis) => this.analyses.delete(analysis.id));
+    Array.from(this.llmCalls.values())
+      .filter((call) => call.uploadId === id)
+      .forEach((call) => this.llmCalls.set(call.id, { ...call, uploadId: null, analysisId: null }));
     return this.uploads.delete(id);
   }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const id = this.currentAnalysisId++;
+    const analysis: Analysis = {
+      id,
+      uploadId: insertAnalysis.uploadId,
+      pipelineMode: insertAnalysis.pipelineMode,
+      promptVersions: insertAnalysis.promptVersions,
+      processingStats: insertAnalysis.processingStats ?? null,
+      usage: insertAnalysis.usage ?? null,
+      result: insertAnalysis.result,
+      createdAt: new Date(),
+    };
+    this.analyses.set(id, analysis);
+    return analysis;
+  }
+
+  async getAnalysesByUpload(uploadId: number): Promise<Analysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.uploadId === uploadId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getAnalysisById(id: number): Promise<Analysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async setCurrentAnalysis(uploadId: number, analysis: Analysis): Promise<Upload | undefined> {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return undefined;
+
+    const updatedUpload: Upload = {
+      ...upload,
+      status: "completed",
+      analysisData: analysis.result,
+      currentAnalysisId: analysis.id,
+      errorClass: null,
+    };
+    this.uploads.set(uploadId, updatedUpload);
+    return updatedUpload;
+  }
+
+  async getCompanies(): Promise<Company[]> {
+    return Array.from(this.companies.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCompanyById(id: number): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const id = this.currentCompanyId++;
+    const company: Company = {
+      id,
+      name: insertCompany.name,
+      normalizedName: insertCompany.normalizedName,
+      ticker: insertCompany.ticker ?? null,
+      industry: insertCompany.industry ?? null,
+      createdAt: new Date(),
+    };
+    this.companies.set(id, company);
+    return company;
+  }
+
+  async updateCompany(id: number, updates: CompanyUpdate): Promise<Company | undefined> {
+    const company = this.companies.get(id);
+    if (!company) return undefined;
+
+    const updatedCompany: Company = { ...company, ...updates };
+    this.companies.set(id, updatedCompany);
+    return updatedCompany;
+  }
+
+  async getUploadsByCompany(companyId: number): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => upload.companyId === companyId)
+      .sort(byFiscalYearDesc);
+  }
+
+  async setUploadCompany(uploadId: number, link: UploadCompanyLink): Promise<Upload | undefined> {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return undefined;
+
+    const updatedUpload: Upload = { ...upload, ...link };
+    this.uploads.set(uploadId, updatedUpload);
+    return updatedUpload;
+  }
+
+  async getStageResult(key: StageResultKey): Promise<StageResult | undefined> {
+    return this.stageResults.get(stageResultKey(key));
+  }
+
+  async saveStageResult(insertResult: InsertStageResult): Promise<StageResult> {
+    const key = stageResultKey({ ...insertResult, contextHash: insertResult.contextHash ?? "" });
+    const result: StageResult = {
+      id: this.stageResults.get(key)?.id ?? this.currentStageResultId++,
+      contentHash: insertResult.contentHash,
+      stage: insertResult.stage,
+      promptVersion: insertResult.promptVersion,
+      model: insertResult.model,
+      contextHash: insertResult.contextHash ?? "",
+      result: insertResult.result,
+      createdAt: new Date(),
+    };
+    this.stageResults.set(key, result);
+    return result;
+  }
+
+  async createLLMCalls(insertCalls: InsertLLMCall[]): Promise<LLMCall[]> {
+    return insertCalls.map((insertCall) => {
+      const call: LLMCall = {
+        id: this.currentLLMCallId++,
+        uploadId: insertCall.uploadId ?? null,
+        analysisId: insertCall.analysisId ?? null,
+        userId: insertCall.userId ?? null,
+        stage: insertCall.stage,
+        model: insertCall.model,
+        promptTokens: insertCall.promptTokens,
+        responseTokens: insertCall.responseTokens,
+        latencyMs: insertCall.latencyMs,
+        costUsd: insertCall.costUsd ?? null,
+        errorClass: insertCall.errorClass ?? null,
+        createdAt: insertCall.createdAt ?? new Date(),
+      };
+      this.llmCalls.set(call.id, call);
+      return call;
+    });
+  }
+
+  async setLLMCallsAnalysis(ids: number[], analysisId: number): Promise<void> {
+    ids.forEach((id) => {
+      const call = this.llmCalls.get(id);
+      if (call) this.llmCalls.set(id, { ...call, analysisId });
+    });
+  }
+
+  async getLLMCalls(range: UsageRange, userId?: number): Promise<LLMCall[]> {
+    return Array.from(this.llmCalls.values())
+      .filter((call) => userId === undefined || call.userId === userId)
+      .filter((call) => !range.from || call.createdAt >= range.from)
+      .filter((call) => !range.to || call.createdAt < range.to)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentJobId++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      uploadId: insertJob.uploadId,
+      type: insertJob.type || "analyze",
+      status: "queued",
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      runAt: now,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJobsByUpload(uploadId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.uploadId === uploadId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: Job = {
+      ...next,
+      status: "running",
+      attempts: next.attempts + 1,
+      updatedAt: now,
+    };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: number, updates: JobUpdate): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: Job = { ...job, ...updates, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async heartbeatJob(id: number): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job?.status === "running") {
+      this.jobs.set(id, { ...job, updatedAt: new Date() });
+    }
+  }
+
+  async requeueStaleJobs(staleBefore: Date): Promise<Job[]> {
+    const stale = Array.from(this.jobs.values()).filter(
+      (job) => job.status === "running" && job.updatedAt < staleBefore,
+    );
+    return Promise.all(
+      stale.map(async (job) => (await this.updateJob(job.id, { status: "queued", runAt: new Date() }))!),
+    );
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db
+      .insert(uploads)
+      .values(insertUpload)
+      .returning();
+    return upload;
+  }
+
+  async getUploads(ownerId?: number): Promise<Upload[]> {
+    return await this.db
+      .select()
+      .from(uploads)
+      .where(ownerId === undefined ? undefined : eq(uploads.ownerId, ownerId))
+      .orderBy(desc(uploads.uploadTime));
+  }
+
+  async getUploadById(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getAnalyzedUploadByContentHash(contentHash: string): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .select()
+      .from(uploads)
+      .where(and(eq(uploads.contentHash, contentHash), isNotNull(uploads.currentAnalysisId)))
+      .orderBy(desc(uploads.uploadTime))
+      .limit(1);
+    return upload;
+  }
+
+  async updateUploadStatus(id: number, status: string, analysisData?: string): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set(analysisData ? { status, analysisData } : { status })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async setUploadErrorClass(id: number, errorClass: string | null): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({ errorClass })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async setUploadVisibility(id: number, visibility: string): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({ visibility })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async deleteUpload(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(uploads)
+      .where(eq(uploads.id, id))
+      .returning({ id: uploads.id });
+    return deleted.length > 0;
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const [analysis] = await this.db
+      .insert(analyses)
+      .values(insertAnalysis)
+      .returning();
+    return analysis;
+  }
+
+  async getAnalysesByUpload(uploadId: number): Promise<Analysis[]> {
+    return await this.db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.uploadId, uploadId))
+      .orderBy(desc(analyses.createdAt), desc(analyses.id));
+  }
+
+  async getAnalysisById(id: number): Promise<Analysis | undefined> {
+    const [analysis] = await this.db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.id, id));
+    return analysis;
+  }
+
+  async setCurrentAnalysis(uploadId: number, analysis: Analysis): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({
+        status: "completed",
+        analysisData: analysis.result,
+        currentAnalysisId: analysis.id,
+        errorClass: null,
+      })
+      .where(eq(uploads.id, uploadId))
+      .returning();
+    return upload;
+  }
+
+  async getCompanies(): Promise<Company[]> {
+    return await this.db.select().from(companies).orderBy(asc(companies.name));
+  }
+
+  async getCompanyById(id: number): Promise<Company | undefined> {
+    const [company] = await this.db
+      .select()
+      .from(companies)
+      .where(eq(companies.id, id));
+    return company;
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const [company] = await this.db
+      .insert(companies)
+      .values(insertCompany)
+      .returning();
+    return company;
+  }
+
+  async updateCompany(id: number, updates: CompanyUpdate): Promise<Company | undefined> {
+    const [company] = await this.db
+      .update(companies)
+      .set(updates)
+      .where(eq(companies.id, id))
+      .returning();
+    return company;
+  }
+
+  async getUploadsByCompany(companyId: number): Promise<Upload[]> {
+    const companyUploads = await this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.companyId, companyId));
+    return companyUploads.sort(byFiscalYearDesc);
+  }
+
+  async setUploadCompany(uploadId: number, link: UploadCompanyLink): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set(link)
+      .where(eq(uploads.id, uploadId))
+      .returning();
+    return upload;
+  }
+
+  async getStageResult(key: StageResultKey): Promise<StageResult | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(stageResults)
+      .where(
+        and(
+          eq(stageResults.contentHash, key.contentHash),
+          eq(stageResults.stage, key.stage),
+          eq(stageResults.promptVersion, key.promptVersion),
+          eq(stageResults.model, key.model),
+          eq(stageResults.contextHash, key.contextHash),
+        ),
+      );
+    return result;
+  }
+
+  async saveStageResult(insertResult: InsertStageResult): Promise<StageResult> {
+    const [result] = await this.db
+      .insert(stageResults)
+      .values(insertResult)
+      .onConflictDoUpdate({
+        target: [
+          stageResults.contentHash,
+          stageResults.stage,
+          stageResults.promptVersion,
+          stageResults.model,
+          stageResults.contextHash,
+        ],
+        set: { result: insertResult.result, createdAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  async createLLMCalls(insertCalls: InsertLLMCall[]): Promise<LLMCall[]> {
+    if (insertCalls.length === 0) return [];
+    return await this.db.insert(llmCalls).values(insertCalls).returning();
+  }
+
+  async setLLMCallsAnalysis(ids: number[], analysisId: number): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(llmCalls).set({ analysisId }).where(inArray(llmCalls.id, ids));
+  }
+
+  async getLLMCalls(range: UsageRange, userId?: number): Promise<LLMCall[]> {
+    return await this.db
+      .select()
+      .from(llmCalls)
+      .where(
+        and(
+          userId === undefined ? undefined : eq(llmCalls.userId, userId),
+          range.from ? gte(llmCalls.createdAt, range.from) : undefined,
+          range.to ? lt(llmCalls.createdAt, range.to) : undefined,
+        ),
+      )
+      .orderBy(asc(llmCalls.createdAt));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJobsByUpload(uploadId: number): Promise<Job[]> {
+    return await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.uploadId, uploadId))
+      .orderBy(desc(jobs.createdAt));
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers poll the table without claiming the same job
+    return await this.db.transaction(async (tx) => {
+      const [next] = await tx
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({ status: "running", attempts: next.attempts + 1, updatedAt: now })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateJob(id: number, updates: JobUpdate): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async heartbeatJob(id: number): Promise<void> {
+    await this.db
+      .update(jobs)
+      .set({ updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+  }
+
+  async requeueStaleJobs(staleBefore: Date): Promise<Job[]> {
+    return await this.db
+      .update(jobs)
+      .set({ status: "queued", runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lt(jobs.updatedAt, staleBefore)))
+      .returning();
+  }
+}
+
+/**
+ * Selects the storage backend at startup. Postgres is used whenever
+ * DATABASE_URL is configured; STORAGE_DRIVER=memory forces the in-memory
+ * store for local development.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER;
+
+  if (driver !== "memory" && process.env.DATABASE_URL) {
+    console.log("Using PostgreSQL storage");
+    return new DrizzleStorage(createDb(process.env.DATABASE_URL));
+  }
+
+  if (driver === "postgres") {
+    throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+  }
+
+  console.log("Using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
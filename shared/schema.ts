@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,14 +8,99 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull().unique(), // matching key: lowercased, legal suffixes stripped
+  ticker: text("ticker"),
+  industry: text("industry"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const uploads = pgTable("uploads", {
   id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").references(() => users.id, { onDelete: "set null" }),
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
   status: text("status").notNull().default("processing"), // processing, completed, failed
   uploadTime: timestamp("upload_time").notNull().defaultNow(),
   filePath: text("file_path"),
-  analysisData: text("analysis_data"), // JSON string
+  analysisData: text("analysis_data"), // JSON string of the current analysis result
+  currentAnalysisId: integer("current_analysis_id"),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+  fiscalYear: integer("fiscal_year"),
+  companyLinkedBy: text("company_linked_by"), // auto, manual - manual links survive re-analysis
+  contentHash: text("content_hash"), // SHA-256 of the file, used to spot duplicate uploads
+  errorClass: text("error_class"), // why the last analysis run failed, kept next to an earlier version: rate_limit, quota, safety_block, invalid_output, transient, timeout, unknown
+  visibility: text("visibility").notNull().default("private"), // private, team - team uploads can be read by every signed-in user
+});
+
+export const analyses = pgTable("analyses", {
+  id: serial("id").primaryKey(),
+  uploadId: integer("upload_id")
+    .notNull()
+    .references(() => uploads.id, { onDelete: "cascade" }),
+  pipelineMode: text("pipeline_mode").notNull(), // sequential, parallel
+  promptVersions: text("prompt_versions").notNull(), // JSON: { stage: prompt version }
+  processingStats: text("processing_stats"), // JSON string
+  usage: text("usage"), // JSON: token, latency and cost totals of the run's model calls
+  result: text("result").notNull(), // JSON string
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  uploadId: integer("upload_id")
+    .notNull()
+    .references(() => uploads.id, { onDelete: "cascade" }),
+  type: text("type").notNull().default("analyze"), // analyze, reanalyze, rerun:<stage>
+  status: text("status").notNull().default("queued"), // queued, running, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Successful stage outputs, reused while the document, prompt and model are unchanged
+export const stageResults = pgTable(
+  "stage_results",
+  {
+    id: serial("id").primaryKey(),
+    contentHash: text("content_hash").notNull(),
+    stage: text("stage").notNull(), // business_overview, financial, hr
+    promptVersion: text("prompt_version").notNull(),
+    model: text("model").notNull(),
+    contextHash: text("context_hash").notNull().default(""), // hash of upstream context, hr only
+    result: text("result").notNull(), // JSON string
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    cacheKey: unique("stage_results_cache_key").on(
+      table.contentHash,
+      table.stage,
+      table.promptVersion,
+      table.model,
+      table.contextHash,
+    ),
+  }),
+);
+
+// One row per model call, kept when the upload is deleted so spend stays on record
+export const llmCalls = pgTable("llm_calls", {
+  id: serial("id").primaryKey(),
+  uploadId: integer("upload_id").references(() => uploads.id, { onDelete: "set null" }),
+  analysisId: integer("analysis_id").references(() => analyses.id, { onDelete: "set null" }), // set once the run succeeds
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // the upload's owner
+  stage: text("stage").notNull(), // business_overview, financial, hr, legacy
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  responseTokens: integer("response_tokens").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  costUsd: doublePrecision("cost_usd"), // null when the model isn't in the price table
+  errorClass: text("error_class"), // set for a failed attempt, which is stored with zero tokens
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -23,12 +108,52 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const insertCompanySchema = createInsertSchema(companies).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertUploadSchema = createInsertSchema(uploads).omit({
   id: true,
   uploadTime: true,
+  currentAnalysisId: true,
+  companyId: true,
+  fiscalYear: true,
+  companyLinkedBy: true,
+  errorClass: true,
+});
+
+export const insertAnalysisSchema = createInsertSchema(analyses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStageResultSchema = createInsertSchema(stageResults).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLLMCallSchema = createInsertSchema(llmCalls).omit({
+  id: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  uploadId: true,
+  type: true,
+  maxAttempts: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Upload = typeof uploads.$inferSelect;
 export type InsertUpload = z.infer<typeof insertUploadSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Analysis = typeof analyses.$inferSelect;
+export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
+export type StageResult = typeof stageResults.$inferSelect;
+export type InsertStageResult = z.infer<typeof insertStageResultSchema>;
+export type LLMCall = typeof llmCalls.$inferSelect;
+export type InsertLLMCall = z.infer<typeof insertLLMCallSchema>;